@@ -0,0 +1,33 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseRows } from '../src/lib/library';
+import { validateLibrary, ValidationIssue } from '../src/lib/validate';
+
+const TSV_PATH = path.join(__dirname, '..', 'public', 'data', 'export_activity_library.tsv');
+
+const rows = parseRows(readFileSync(TSV_PATH, 'utf8'));
+const issues = validateLibrary(rows);
+
+// Group issues by row so each spreadsheet row can be fixed in one pass
+const issuesByRow = new Map<string, ValidationIssue[]>();
+issues.forEach(issue => {
+  const rowIssues = issuesByRow.get(issue.rowId) || [];
+  rowIssues.push(issue);
+  issuesByRow.set(issue.rowId, rowIssues);
+});
+
+issuesByRow.forEach((rowIssues, rowId) => {
+  console.log(`Row ${rowId}`);
+  rowIssues.forEach(issue => {
+    console.log(`  ${issue.severity.toUpperCase().padEnd(7)} [${issue.column}] ${issue.message}`);
+  });
+});
+
+const errorCount = issues.filter(issue => issue.severity === 'error').length;
+const warningCount = issues.length - errorCount;
+
+console.log(`\n${path.relative(process.cwd(), TSV_PATH)}: ${errorCount} error(s), ${warningCount} warning(s)`);
+
+if (errorCount > 0) {
+  process.exit(1);
+}
@@ -1,21 +1,41 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import Papa from 'papaparse';
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import FeedbackButton from '../../components/FeedbackButton';
 import IntroModal from '../../components/IntroModal';
 import ActivityLink from '../../components/ActivityLink';
 import LibraryNavigation from '../../components/LibraryNavigation';
-import { useStarredActivities } from '../../contexts/StarredContext';
-import { searchWithScoring } from '../../lib/search';
-
-interface Activity {
-  [key: string]: string;
-}
-
-interface Tool {
-  [key: string]: string;
-}
+import HighlightedText from '../../components/HighlightedText';
+import MatchSnippet from '../../components/MatchSnippet';
+import FilterPresets from '../../components/FilterPresets';
+import CollectionMenu from '../../components/CollectionMenu';
+import LogPracticeButton from '../../components/LogPracticeButton';
+import CollectionFilter from '../../components/CollectionFilter';
+import NotesPanel from '../../components/NotesPanel';
+import PhaseAssessment from '../../components/PhaseAssessment';
+import { useFavorites } from '../../contexts/FavoritesContext';
+import { useNotes } from '../../contexts/NotesContext';
+import { useMyPhase } from '../../contexts/PhaseContext';
+import { fitsPhase } from '../../lib/phase';
+import { attachNotes } from '../../lib/notes';
+import { useLibrary } from '../../contexts/LibraryContext';
+import { getFieldMatch, getDeepestMatch, FieldMatch } from '../../lib/search';
+import { useSearch } from '../../hooks/useSearch';
+import { useUrlState } from '../../hooks/useUrlState';
+import { useStoredState } from '../../hooks/useStoredState';
+import { ACTIVITY_SORT_OPTIONS, ActivitySortMode, isActivitySortMode, sortActivities } from '../../lib/sort';
+import { Activity, Tool, ActivityGuide } from '../../lib/library';
+import {
+  ActivityFilters,
+  ActivityFacet,
+  EMPTY_ACTIVITY_FILTERS,
+  matchesActivityFilters,
+  getActivityFacetValues,
+  countActivityFacetOptions,
+  activityFiltersFromParams,
+  activityFiltersToParams
+} from '../../lib/filters';
 
 interface FormattedTextProps {
   children?: string;
@@ -24,12 +44,19 @@ interface FormattedTextProps {
   currentActivityId?: string;
 }
 
-const GUIDE_SECTIONS = [
-  'Written Guide - Intro',
-  'Written Guide - Health Routine',
-  'Written Guide - Issues',
-  'Written Guide - Setup',
-  'Written Guide - Walkthrough'
+const GUIDE_SECTIONS: { key: keyof ActivityGuide; title: (name: string) => string }[] = [
+  { key: 'intro', title: name => `${name} Walkthrough` },
+  { key: 'healthRoutine', title: () => 'How this fits into a healthy learning routine' },
+  { key: 'issues', title: () => 'Common issues and questions' },
+  { key: 'setup', title: () => 'Setup' },
+  { key: 'walkthrough', title: () => 'Walkthrough' }
+];
+
+const FACET_SECTIONS: { facet: ActivityFacet; label: string; formatOption?: (option: string) => string }[] = [
+  { facet: 'pillar', label: 'Pillar' },
+  { facet: 'phase', label: 'Phase', formatOption: option => `Phase ${option}` },
+  { facet: 'parentSkill', label: 'Parent Skill' },
+  { facet: 'type', label: 'Type' }
 ];
 
 const getEmbedUrl = (url: string): string | null => {
@@ -65,7 +92,7 @@ const FormattedText = ({ children, activities = [], tools = [], currentActivityI
   
   if (activities.length > 0) {
     activities.forEach(activity => {
-      const displayName = activity['Display Name'] || activity['code name'];
+      const displayName = activity.displayName;
       if (displayName && activity.id !== currentActivityId && displayName.toLowerCase() !== 'other') {
         activityMap.set(displayName.toLowerCase(), activity);
         sortedActivityNames.push(displayName);
@@ -82,7 +109,7 @@ const FormattedText = ({ children, activities = [], tools = [], currentActivityI
   
   if (tools.length > 0) {
     tools.forEach(tool => {
-      const displayName = tool['Display Name'] || tool['code name'];
+      const displayName = tool.displayName;
       if (displayName && displayName.toLowerCase() !== 'other') {
         toolMap.set(displayName.toLowerCase(), tool);
         sortedToolNames.push(displayName);
@@ -394,22 +421,22 @@ const ToolTooltip = ({ tool, children }: { tool: Tool; children: React.ReactNode
           
           <div className="space-y-2">
             <h4 className="font-bold text-sm" style={{ color: '#230E77' }}>
-              {tool['Display Name'] || tool['code name']}
+              {tool.displayName}
             </h4>
             
             <p className="text-xs text-gray-700 leading-relaxed">
-              {tool['Short Description']}
+              {tool.shortDescription}
             </p>
             
             <div className="flex flex-wrap gap-1">
-              {tool['Type'] && (
+              {tool.platforms.length > 0 && (
                 <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#F97316', color: '#FFFFFE' }}>
-                  {tool['Type']}
+                  {tool.platforms.join(', ')}
                 </span>
               )}
-              {tool['Pillar'] && (
+              {tool.pricing && (
                 <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#FDBA74', color: '#230E77' }}>
-                  {tool['Pillar']}
+                  {tool.pricing}
                 </span>
               )}
             </div>
@@ -429,12 +456,19 @@ interface CardProps {
   isOpen: boolean;
   onToggle: (activityId: string) => void;
   cardRef?: (el: HTMLDivElement | null) => void;
+  // Where the current search matched; empty when there is no query
+  matches: FieldMatch[];
   activities: Activity[];
   tools: Tool[];
 }
 
-const Card = ({ act, isOpen, onToggle, cardRef, activities, tools }: CardProps) => {
-  const { isStarred, toggleStar } = useStarredActivities();
+const Card = ({ act, isOpen, onToggle, cardRef, matches, activities, tools }: CardProps) => {
+  const { isStarred, toggleStar } = useFavorites();
+  const { relationships } = useLibrary();
+  const deepestMatch = getDeepestMatch(matches);
+  const { myPhase } = useMyPhase();
+  // Once the learner has a phase, activities outside it fade into the background
+  const phaseFit = myPhase ? fitsPhase(act, myPhase) : null;
 
   const handleCardClick = (e: React.MouseEvent) => {
     // Don't toggle if clicking on the external link icon, feedback button, or star button
@@ -461,11 +495,11 @@ const Card = ({ act, isOpen, onToggle, cardRef, activities, tools }: CardProps)
     e.stopPropagation();
     
     // If this card is currently open and we're starring it, we'll need to follow it
-    const wasStarred = isStarred(act.id);
+    const wasStarred = isStarred('activities', act.id);
     const willBeStarred = !wasStarred;
     
     // Toggle the star
-    toggleStar(act.id);
+    toggleStar('activities', act.id);
     
     // If card is open and moving to starred section, we'll scroll to it after re-render
     if (isOpen && willBeStarred) {
@@ -482,18 +516,10 @@ const Card = ({ act, isOpen, onToggle, cardRef, activities, tools }: CardProps)
     }
   };
   
-  const whyUrl = getEmbedUrl(act['Video What and why']);
-  const demoUrl = getEmbedUrl(act['Video Demo']);
+  const whyUrl = getEmbedUrl(act.videoWhatAndWhy);
+  const demoUrl = getEmbedUrl(act.videoDemo);
 
-  // Get tools for this activity
-  const activityTools = act['Tools'] ? 
-    act['Tools'].split(/;+/).map(toolName => {
-      const trimmed = toolName.trim();
-      return tools.find(tool => 
-        (tool['Display Name'] && tool['Display Name'].toLowerCase() === trimmed.toLowerCase()) ||
-        (tool['code name'] && tool['code name'].toLowerCase() === trimmed.toLowerCase())
-      );
-    }).filter((tool): tool is Tool => tool !== undefined) : [];
+  const activityTools = relationships.toolsByActivity.get(act.id) || [];
 
   return (
     <div 
@@ -501,7 +527,7 @@ const Card = ({ act, isOpen, onToggle, cardRef, activities, tools }: CardProps)
       data-activity-id={act.id}
       onClick={handleCardClick}
       onMouseDown={handleMiddleClick}
-      className="cursor-pointer rounded-xl shadow-lg hover:shadow-2xl transition-shadow duration-300 relative"
+      className={`cursor-pointer rounded-xl shadow-lg hover:shadow-2xl transition duration-300 relative ${phaseFit === false && !isOpen ? 'opacity-60 hover:opacity-100' : ''}`}
       style={{ backgroundColor: '#FFFFFE' }}
     >
       {/* Top right buttons */}
@@ -510,15 +536,15 @@ const Card = ({ act, isOpen, onToggle, cardRef, activities, tools }: CardProps)
           onClick={handleStarClick}
           className="p-1.5 rounded-lg transition-all duration-200 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-yellow-300"
           style={{ 
-            color: isStarred(act.id) ? '#F59E0B' : '#9CA3AF'
+            color: isStarred('activities', act.id) ? '#F59E0B' : '#9CA3AF'
           }}
-          title={isStarred(act.id) ? 'Remove from starred' : 'Add to starred'}
+          title={isStarred('activities', act.id) ? 'Remove from starred' : 'Add to starred'}
         >
           <svg 
             width="16" 
             height="16" 
             viewBox="0 0 24 24" 
-            fill={isStarred(act.id) ? 'currentColor' : 'none'}
+            fill={isStarred('activities', act.id) ? 'currentColor' : 'none'}
             stroke="currentColor" 
             strokeWidth="2" 
             strokeLinecap="round" 
@@ -527,6 +553,8 @@ const Card = ({ act, isOpen, onToggle, cardRef, activities, tools }: CardProps)
             <polygon points="12,2 15.09,8.26 22,9.27 17,14.14 18.18,21.02 12,17.77 5.82,21.02 7,14.14 2,9.27 8.91,8.26"></polygon>
           </svg>
         </button>
+        <CollectionMenu library="activities" itemId={act.id} />
+        <LogPracticeButton activityId={act.id} />
         <button
           onClick={handleExternalLinkClick}
           className="external-link-icon p-2 rounded-lg transition-colors duration-200 hover:bg-gray-100 focus:outline-none focus:ring-2"
@@ -557,37 +585,43 @@ const Card = ({ act, isOpen, onToggle, cardRef, activities, tools }: CardProps)
         <FeedbackButton 
           type="activity" 
           activityId={act.id} 
-          activityName={act['Display Name'] || act['code name']}
+          activityName={act.displayName}
         />
       </div>
 
       <header className="p-4 sm:p-6 border-b space-y-2" style={{ borderColor: '#D1D5DB' }}>
         <h2 className="text-xl sm:text-2xl font-extrabold break-words pr-8" style={{ color: '#230E77' }}>
-          {act['Display Name'] || act['code name']}
+          <HighlightedText text={act.displayName} ranges={getFieldMatch(matches, 'displayName')?.ranges} />
         </h2>
         <pre className="text-sm whitespace-pre-wrap break-words text-gray-700">
-          {act['Short Description']}
+          <HighlightedText text={act.shortDescription} ranges={getFieldMatch(matches, 'shortDescription')?.ranges} />
         </pre>
+        {deepestMatch && <MatchSnippet match={deepestMatch} />}
         <p className="text-xs font-roboto text-gray-400">
-          ID: {act['id']} &middot; Code: {act['code name']}
+          ID: {act.id} &middot; Code: {act.codeName}
         </p>
       </header>
 
       <div className="p-4 sm:p-6 space-y-4 pb-12">
         <div className="flex flex-wrap gap-2">
-          {act['Type'] && (
+          {act.type && (
             <span className="px-2 py-1 rounded-full text-xs font-medium font-roboto" style={{ backgroundColor: '#F3CE5B', color: '#230E77' }}>
-              {act['Type']}
+              {act.type}
             </span>
           )}
-          {act['Pillar'] && (
+          {act.pillar && (
             <span className="px-2 py-1 rounded-full text-xs font-medium font-roboto" style={{ backgroundColor: '#6544E9', color: '#FFFFFE' }}>
-              {act['Pillar']}
+              {act.pillar}
             </span>
           )}
-          {act['Refold Phase(s)'] && act['Refold Phase(s)'].split(/;+/).map((p, i) => (
-            <span key={i} className="px-2 py-1 rounded-full text-xs font-medium font-roboto" style={{ backgroundColor: '#BFB2F6', color: '#230E77' }}>
-              Phase {p.trim()}
+          {act.phases.map((p, i) => (
+            <span
+              key={i}
+              className="px-2 py-1 rounded-full text-xs font-medium font-roboto"
+              style={p === myPhase ? { backgroundColor: '#230E77', color: '#FFFFFE' } : { backgroundColor: '#BFB2F6', color: '#230E77' }}
+              title={p === myPhase ? 'Your phase' : undefined}
+            >
+              Phase {p}{p === myPhase && ' ✓'}
             </span>
           ))}
         </div>
@@ -599,7 +633,7 @@ const Card = ({ act, isOpen, onToggle, cardRef, activities, tools }: CardProps)
             <div className="flex flex-wrap gap-2">
               {activityTools.map((tool, i) => (
                 <ToolTooltip key={i} tool={tool}>
-                  {tool['Display Name'] || tool['code name']}
+                  {tool.displayName}
                 </ToolTooltip>
               ))}
             </div>
@@ -607,76 +641,70 @@ const Card = ({ act, isOpen, onToggle, cardRef, activities, tools }: CardProps)
         )}
 
         <div className="grid grid-cols-1 gap-4 text-sm text-gray-600">
-          {act['Parent Skills'] && (
+          {act.parentSkills.length > 0 && (
             <div className="break-words">
-              <strong>Parent Skills:</strong> {act['Parent Skills']}
+              <strong>Parent Skills:</strong> {act.parentSkills.join(', ')}
             </div>
           )}
-          {act['Child Techniques'] && act['Child Techniques'] !== '#N/A' && (
+          {act.childTechniques.length > 0 && (
             <div className="break-words">
-              <strong>Child Techniques:</strong> {act['Child Techniques']}
+              <strong>Child Techniques:</strong> {act.childTechniques.join('; ')}
             </div>
           )}
-          {act['Parent Categories'] && (
+          {act.parentCategories.length > 0 && (
             <div className="break-words">
-              <strong>Parent Categories:</strong> {act['Parent Categories'].split(/;+/).map(cat => cat.trim()).filter(Boolean).join(', ')}
+              <strong>Parent Categories:</strong> {act.parentCategories.join(', ')}
             </div>
           )}
-          {act['Alternatives'] && (
+          {act.alternatives.length > 0 && (
             <div className="break-words">
-              <strong>Alternatives:</strong> {act['Alternatives']}
+              <strong>Alternatives:</strong> {act.alternatives.join(', ')}
             </div>
           )}
-          {act['Sub-techniques'] && (
+          {act.subTechniques.length > 0 && (
             <div className="break-words">
-              <strong>Sub-techniques:</strong> {act['Sub-techniques']}
+              <strong>Sub-techniques:</strong> {act.subTechniques.join('; ')}
             </div>
           )}
         </div>
 
-        {act['Aliases'] && (
+        {act.aliases.length > 0 && (
           <p className="italic text-sm break-words font-roboto text-gray-600">
-            {act['Aliases']
-              .split(/\r?\n|; ?/)
-              .map(a => a.trim().replace(/^[-–—]\s*/, ''))
-              .filter(Boolean)
-              .join(', ')}
+            {act.aliases.join(', ')}
           </p>
         )}
       </div>
 
       {isOpen && (
         <div className="p-4 sm:p-6 bg-gray-50 space-y-6">
-          <FormattedText activities={activities} tools={tools} currentActivityId={act.id}>{act['Long Description']}</FormattedText>
+          <FormattedText activities={activities} tools={tools} currentActivityId={act.id}>{act.longDescription}</FormattedText>
           {(whyUrl || demoUrl) && (
             <div className="space-y-6">
               {whyUrl && <Video title="What & Why" src={whyUrl} />}
               <DemoSection demoUrl={demoUrl || undefined} />
             </div>
           )}
-          {act['Benefits'] && (
+          {act.benefits.length > 0 && (
             <div>
               <strong style={{ color: '#230E77' }}>Benefits:</strong>
               <ul className="list-disc list-inside mt-1 text-gray-700">
-                {act['Benefits'].split(/;+/).map((b, i) => (
+                {act.benefits.map((b, i) => (
                   <li key={i}>{b.trim()}</li>
                 ))}
               </ul>
               <hr className="mt-6 border-gray-300" />
             </div>
           )}
-          {GUIDE_SECTIONS.map(sec => act[sec] && (
-            <div key={sec}>
+          {GUIDE_SECTIONS.map(sec => act.guide[sec.key] && (
+            <div key={sec.key}>
               <h4 className="font-extrabold" style={{ color: '#230E77' }}>
-                {sec.replace('Written Guide - ','')
-                   .replace('Health Routine', 'How this fits into a healthy learning routine')
-                   .replace('Intro', `${act['Display Name'] || act['code name']} Walkthrough`)
-                   .replace('Issues', 'Common issues and questions')}
+                {sec.title(act.displayName)}
               </h4>
-              <FormattedText activities={activities} tools={tools} currentActivityId={act.id}>{act[sec]}</FormattedText>
+              <FormattedText activities={activities} tools={tools} currentActivityId={act.id}>{act.guide[sec.key]}</FormattedText>
             </div>
           ))}
-          <TipsSection content={act['Written Guide - Tips and Tricks']} activities={activities} tools={tools} currentActivityId={act.id} />
+          <TipsSection content={act.guide.tipsAndTricks} activities={activities} tools={tools} currentActivityId={act.id} />
+          <NotesPanel library="activities" itemId={act.id} accentColor="#6544E9" />
         </div>
       )}
     </div>
@@ -684,19 +712,47 @@ const Card = ({ act, isOpen, onToggle, cardRef, activities, tools }: CardProps)
 };
 
 export default function ActivitiesPage() {
-  const [activities, setActivities] = useState<Activity[]>([]);
-  const [tools, setTools] = useState<Tool[]>([]);
+  const { activities, tools, isLoaded } = useLibrary();
   const [query, setQuery] = useState('');
-  const [loading, setLoading] = useState(true);
   const [showScrollTop, setShowScrollTop] = useState(false);
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
-  const [filters, setFilters] = useState({
-    pillar: '',
-    phase: '',
-    parentSkill: ''
-  });
+  const [filters, setFilters] = useState<ActivityFilters>(EMPTY_ACTIVITY_FILTERS);
+  const [collectionId, setCollectionId] = useState('');
+  const [onlyWithNotes, setOnlyWithNotes] = useState(false);
+  const [onlyMyPhase, setOnlyMyPhase] = useState(false);
+  const { myPhase } = useMyPhase();
+
+  const { starredIds: allStarredIds, collections, isLoaded: starredLoaded } = useFavorites();
+  const starredIds = allStarredIds.activities;
+  const { notes, hasNote } = useNotes();
+  // Notes ride along on the items so search matches them too
+  const activitiesWithNotes = useMemo(() => attachNotes(activities, notes.activities), [activities, notes.activities]);
+  const searchResults = useSearch(activitiesWithNotes, query);
+  const [sortMode, setSortMode] = useStoredState<ActivitySortMode>('refold-sort-activities', 'relevance', isActivitySortMode);
+
+  // Presets save the search and filters; the URL also mirrors the open cards so views can be shared
+  const presetParams = new URLSearchParams();
+  if (query) presetParams.set('q', query);
+  activityFiltersToParams(filters, presetParams);
+  if (collectionId) presetParams.set('collection', collectionId);
+  if (onlyWithNotes) presetParams.set('notes', '1');
+  if (onlyMyPhase) presetParams.set('myphase', '1');
 
-  const { starredIds, isLoaded: starredLoaded } = useStarredActivities();
+  const urlParams = new URLSearchParams(presetParams);
+  expandedCards.forEach(id => urlParams.append('open', id));
+
+  const applyPreset = (params: URLSearchParams) => {
+    setQuery(params.get('q') || '');
+    setFilters(activityFiltersFromParams(params));
+    setCollectionId(params.get('collection') || '');
+    setOnlyWithNotes(params.get('notes') === '1');
+    setOnlyMyPhase(params.get('myphase') === '1');
+  };
+
+  useUrlState(urlParams, params => {
+    applyPreset(params);
+    setExpandedCards(new Set(params.getAll('open')));
+  }, ['q']);
 
   // Handle scroll to show/hide scroll to top button
   useEffect(() => {
@@ -727,95 +783,38 @@ export default function ActivitiesPage() {
     });
   };
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const response = await fetch('/data/export_activity_library.tsv');
-        const text = await response.text();
-        
-        Papa.parse(text, {
-          header: true,
-          delimiter: '\t',
-          skipEmptyLines: false,
-          complete: (res) => {
-            const cleaned = (res.data as Record<string, unknown>[]).map((r) => {
-              const o: Activity | Tool = {};
-              Object.entries(r).forEach(([k, v]) => {
-                o[k] = typeof v === 'string' ? v.replace(/\r/g, '').replace(/⏎/g, '\n').trim() : v as string;
-              });
-              return o;
-            });
-            
-            // Separate activities and tools
-            const activitiesOnly = cleaned.filter(item => item.Library === 'Activities') as Activity[];
-            const toolsOnly = cleaned.filter(item => item.Library === 'Tools') as Tool[];
-            
-            // Sort by ID (convert to number for proper sorting)
-            const sortedActivities = activitiesOnly.sort((a, b) => {
-              const idA = parseInt(a.id) || 0;
-              const idB = parseInt(b.id) || 0;
-              return idA - idB;
-            });
-
-            const sortedTools = toolsOnly.sort((a, b) => {
-              const idA = parseInt(a.id) || 0;
-              const idB = parseInt(b.id) || 0;
-              return idA - idB;
-            });
-            
-            setActivities(sortedActivities);
-            setTools(sortedTools);
-            setLoading(false);
-          }
-        });
-      } catch (error) {
-        console.error('Error loading data:', error);
-        setLoading(false);
-      }
-    };
-    
-    loadData();
-  }, []);
-
-  const getUniqueOptions = (field: string): string[] => {
+  const getUniqueOptions = (getValues: (act: Activity) => string[]): string[] => {
     const values = new Set<string>();
     activities.forEach(act => {
-      const value = act[field];
-      if (value) {
-        if (field === 'Refold Phase(s)') {
-          value.split(/;+/).forEach(phase => {
-            const trimmed = phase.trim();
-            if (trimmed) values.add(trimmed);
-          });
-        } else if (field === 'Parent Skills') {
-          value.split(/[;,]+/).forEach(skill => {
-            const trimmed = skill.trim();
-            if (trimmed) values.add(trimmed);
-          });
-        } else {
-          values.add(value.trim());
-        }
-      }
+      getValues(act).forEach(value => values.add(value));
     });
     return Array.from(values).sort();
   };
 
   const clearFilters = () => {
-    setFilters({ pillar: '', phase: '', parentSkill: '' });
+    setFilters(EMPTY_ACTIVITY_FILTERS);
   };
 
-  // Apply search scoring first, then other filters
-  const searchResults = searchWithScoring(activities, query);
-  
-  const filtered = searchResults.filter(a => {
-    const matchesPillar = !filters.pillar || a['Pillar'] === filters.pillar;
-    const matchesPhase = !filters.phase || 
-      (a['Refold Phase(s)'] && a['Refold Phase(s)'].split(/;+/).some(phase => phase.trim() === filters.phase));
-    const matchesParentSkill = !filters.parentSkill || 
-      (a['Parent Skills'] && a['Parent Skills'].split(/[;,]+/).some(skill => skill.trim() === filters.parentSkill));
-    
-    return matchesPillar && matchesPhase && matchesParentSkill;
-  });
+  const toggleFacetOption = (facet: ActivityFacet, option: string) => {
+    setFilters(prev => ({
+      ...prev,
+      [facet]: prev[facet].includes(option)
+        ? prev[facet].filter(selected => selected !== option)
+        : [...prev[facet], option]
+    }));
+  };
+
+  // Filters apply on top of the ranked search results
+  const matchesById = new Map(searchResults.map(result => [result.item.id, result.matches]));
+
+  // Collection, notes and phase filters narrow the search results before the facets count them
+  const activeCollection = collections.find(collection => collection.id === collectionId);
+  const searchedActivities = searchResults
+    .map(result => result.item)
+    .filter(a => !activeCollection || activeCollection.items.activities.includes(a.id))
+    .filter(a => !onlyWithNotes || hasNote('activities', a.id))
+    .filter(a => !onlyMyPhase || !myPhase || fitsPhase(a, myPhase));
+  const filtered = sortActivities(searchedActivities.filter(a => matchesActivityFilters(a, filters)), sortMode);
 
   // Split into starred and non-starred activities
   const starredActivities = filtered.filter(a => starredIds.includes(a.id));
@@ -838,6 +837,9 @@ export default function ActivitiesPage() {
             <div className="flex items-center gap-2">
               {/* Intro/Help modal */}
               <IntroModal showInitially={true} type="activities" />
+
+              {/* Phase self-assessment */}
+              <PhaseAssessment />
               
               {/* General feedback button - larger and more visible */}
               <button
@@ -869,8 +871,19 @@ export default function ActivitiesPage() {
           </div>
           
           <p className="mt-2 text-sm sm:text-base font-roboto text-gray-600">
-            {loading ? 'Loading activity data...' : `Loaded ${activities.length} activities`}
-            {starredLoaded && starredIds.length > 0 && ` • ${starredIds.length} starred`}
+            {!isLoaded ? 'Loading activity data...' : `Loaded ${activities.length} activities`}
+            {starredLoaded && starredIds.length > 0 && (
+              <>
+                {' • '}
+                <Link href="/starred" className="hover:underline">{starredIds.length} starred</Link>
+              </>
+            )}
+            {' • '}
+            <Link href="/routine" className="hover:underline" style={{ color: '#6544E9' }}>Plan your week</Link>
+            {' • '}
+            <Link href="/progress" className="hover:underline" style={{ color: '#6544E9' }}>My progress</Link>
+            {' • '}
+            <Link href="/matrix" className="hover:underline" style={{ color: '#6544E9' }}>Activity–tool matrix</Link>
           </p>
         </header>
 
@@ -882,7 +895,7 @@ export default function ActivitiesPage() {
             type="text" 
             value={query} 
             onChange={e => setQuery(e.target.value)} 
-            placeholder="Search activities..." 
+            placeholder="Search activities... (try pillar:interactive phase:3 -freeflow)" 
             className="w-full px-4 py-3 border-2 rounded-lg bg-white shadow-sm text-base focus:ring-2 focus:ring-opacity-50 text-gray-800"
             style={{ 
               borderColor: '#D1D5DB'
@@ -894,82 +907,117 @@ export default function ActivitiesPage() {
         
         {activities.length > 0 && (
           <div className="mb-6 p-4 bg-white rounded-lg shadow-sm border" style={{ borderColor: '#D1D5DB' }}>
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
-              <div>
-                <label className="block text-sm font-medium mb-1 font-roboto text-gray-700">Pillar</label>
-                <select 
-                  value={filters.pillar} 
-                  onChange={e => setFilters(prev => ({...prev, pillar: e.target.value}))}
-                  className="w-full px-3 py-2 border rounded bg-white shadow-sm text-sm focus:ring-2 text-gray-800"
-                  style={{ 
-                    borderColor: '#D1D5DB'
-                  }}
-                >
-                  <option value="">All Pillars</option>
-                  {getUniqueOptions('Pillar').map(option => (
-                    <option key={option} value={option}>{option}</option>
-                  ))}
-                </select>
-              </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-start">
+              {FACET_SECTIONS.map(({ facet, label, formatOption }) => {
+                const counts = countActivityFacetOptions(searchedActivities, filters, facet);
+
+                return (
+                  <div key={facet}>
+                    <label className="block text-sm font-medium mb-2 font-roboto text-gray-700">{label}</label>
+                    <div className="space-y-2 max-h-32 overflow-y-auto">
+                      {getUniqueOptions(act => getActivityFacetValues(act, facet)).map(option => {
+                        const count = counts.get(option) || 0;
+                        const checked = filters[facet].includes(option);
+                        // Selected options stay enabled so they can always be cleared
+                        const disabled = count === 0 && !checked;
+
+                        return (
+                          <label key={option} className={`flex items-center ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              disabled={disabled}
+                              onChange={() => toggleFacetOption(facet, option)}
+                              className="mr-2 rounded"
+                              style={{ accentColor: '#6544E9' }}
+                            />
+                            <span className="text-sm text-gray-700">
+                              {formatOption ? formatOption(option) : option}
+                              <span className="ml-1 text-gray-400">({count})</span>
+                            </span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
               
-              <div>
-                <label className="block text-sm font-medium mb-1 font-roboto text-gray-700">Phase</label>
-                <select 
-                  value={filters.phase} 
-                  onChange={e => setFilters(prev => ({...prev, phase: e.target.value}))}
-                  className="w-full px-3 py-2 border rounded bg-white shadow-sm text-sm focus:ring-2 text-gray-800"
+              <div className="flex items-end">
+                <button 
+                  onClick={clearFilters}
+                  className="px-4 py-2 text-sm border rounded hover:shadow-md transition-all duration-200 focus:outline-none focus:ring-2 bg-white"
                   style={{ 
-                    borderColor: '#D1D5DB'
+                    color: '#6544E9',
+                    borderColor: '#6544E9'
                   }}
-                >
-                  <option value="">All Phases</option>
-                  {getUniqueOptions('Refold Phase(s)').map(option => (
-                    <option key={option} value={option}>Phase {option}</option>
-                  ))}
-                </select>
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium mb-1 font-roboto text-gray-700">Parent Skill</label>
-                <select 
-                  value={filters.parentSkill} 
-                  onChange={e => setFilters(prev => ({...prev, parentSkill: e.target.value}))}
-                  className="w-full px-3 py-2 border rounded bg-white shadow-sm text-sm focus:ring-2 text-gray-800"
-                  style={{ 
-                    borderColor: '#D1D5DB'
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = '#6544E9'
+                    e.currentTarget.style.color = '#FFFFFE'
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = '#FFFFFE'
+                    e.currentTarget.style.color = '#6544E9'
                   }}
                 >
-                  <option value="">All Parent Skills</option>
-                  {getUniqueOptions('Parent Skills').map(option => (
-                    <option key={option} value={option}>{option}</option>
-                  ))}
-                </select>
+                  Clear Filters
+                </button>
               </div>
-              
-              <button 
-                onClick={clearFilters}
-                className="px-4 py-2 text-sm border rounded hover:shadow-md transition-all duration-200 focus:outline-none focus:ring-2 bg-white"
-                style={{ 
-                  color: '#6544E9',
-                  borderColor: '#6544E9'
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor = '#6544E9'
-                  e.currentTarget.style.color = '#FFFFFE'
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = '#FFFFFE'
-                  e.currentTarget.style.color = '#6544E9'
-                }}
-              >
-                Clear Filters
-              </button>
             </div>
             
-            <div className="mt-3 text-sm font-roboto text-gray-600">
-              Showing {filtered.length} of {activities.length} activities
-              {starredActivities.length > 0 && ` (${starredActivities.length} starred)`}
+            <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm font-roboto text-gray-600">
+                Showing {filtered.length} of {activities.length} activities
+                {starredActivities.length > 0 && ` (${starredActivities.length} starred)`}
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <CollectionFilter value={collectionId} onChange={setCollectionId} />
+                <label className="flex items-center gap-2 text-sm font-roboto text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={onlyWithNotes}
+                    onChange={e => setOnlyWithNotes(e.target.checked)}
+                    className="rounded"
+                    style={{ accentColor: '#6544E9' }}
+                  />
+                  Has notes
+                </label>
+                {myPhase && (
+                  <label className="flex items-center gap-2 text-sm font-roboto text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={onlyMyPhase}
+                      onChange={e => setOnlyMyPhase(e.target.checked)}
+                      className="rounded"
+                      style={{ accentColor: '#6544E9' }}
+                    />
+                    For my phase ({myPhase})
+                  </label>
+                )}
+                <label className="flex items-center gap-2 text-sm font-roboto text-gray-600">
+                  Sort by
+                  <select
+                    value={sortMode}
+                    onChange={e => setSortMode(e.target.value as ActivitySortMode)}
+                    className="px-2 py-1 border rounded bg-white shadow-sm text-sm focus:ring-2 text-gray-800"
+                    style={{ borderColor: '#D1D5DB' }}
+                  >
+                    {ACTIVITY_SORT_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.value === 'relevance' && !query.trim() ? 'Default order' : option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
             </div>
+
+            <FilterPresets
+              library="activities"
+              currentParams={presetParams.toString()}
+              onApply={applyPreset}
+              accentColor="#6544E9"
+            />
           </div>
         )}
 
@@ -998,6 +1046,7 @@ export default function ActivitiesPage() {
                     act={a} 
                     isOpen={expandedCards.has(a.id)}
                     onToggle={toggleCard}
+                    matches={matchesById.get(a.id) || []}
                     activities={activities}
                     tools={tools}
                   />
@@ -1027,6 +1076,7 @@ export default function ActivitiesPage() {
                     act={a} 
                     isOpen={expandedCards.has(a.id)}
                     onToggle={toggleCard}
+                    matches={matchesById.get(a.id) || []}
                     activities={activities}
                     tools={tools}
                   />
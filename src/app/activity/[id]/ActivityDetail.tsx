@@ -0,0 +1,635 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import FeedbackButton from '../../../components/FeedbackButton';
+import StarButton from '../../../components/StarButton';
+import CollectionMenu from '../../../components/CollectionMenu';
+import LogPracticeButton from '../../../components/LogPracticeButton';
+import NotesPanel from '../../../components/NotesPanel';
+import ActivityLink from '../../../components/ActivityLink';
+import { useLibrary } from '../../../contexts/LibraryContext';
+import { addRecentItem } from '../../../lib/recentItems';
+import { Activity, Tool, ActivityGuide } from '../../../lib/library';
+
+interface FormattedTextProps {
+  children?: string;
+  activities?: Activity[];
+  tools?: Tool[];
+  currentActivityId?: string;
+}
+
+const GUIDE_SECTIONS: { key: keyof ActivityGuide; title: (name: string) => string }[] = [
+  { key: 'intro', title: name => `${name} Walkthrough` },
+  { key: 'healthRoutine', title: () => 'How this fits into a healthy learning routine' },
+  { key: 'issues', title: () => 'Common issues and questions' },
+  { key: 'setup', title: () => 'Setup' },
+  { key: 'walkthrough', title: () => 'Walkthrough' }
+];
+
+const getEmbedUrl = (url: string): string | null => {
+  if (!url) return null;
+  const match = url.match(/(?:youtu\.be\/|watch\?v=)([\w-]+)/);
+  return match ? `https://www.youtube.com/embed/${match[1]}` : null;
+};
+
+const Video = ({ title, src }: { title: string; src: string }) => (
+  <div>
+    <h3 className="font-semibold mb-2">{title}</h3>
+    <div className="px-0 sm:px-8 md:px-16 lg:px-24">
+      <div className="relative rounded overflow-hidden" style={{ paddingTop: '56.25%' }}>
+        <iframe 
+          className="absolute top-0 left-0 w-full h-full" 
+          src={src} 
+          title={title} 
+          frameBorder="0" 
+          allow="accelerometer; autoplay; encrypted-media; gyroscope; picture-in-picture" 
+          allowFullScreen 
+        />
+      </div>
+    </div>
+  </div>
+);
+
+const FormattedText = ({ children, activities = [], tools = [], currentActivityId }: FormattedTextProps) => {
+  if (!children) return null;
+  
+  // Build activity lookup structures
+  const activityMap = new Map<string, Activity>();
+  const sortedActivityNames: string[] = [];
+  
+  if (activities.length > 0) {
+    activities.forEach(activity => {
+      const displayName = activity.displayName;
+      if (displayName && activity.id !== currentActivityId && displayName.toLowerCase() !== 'other') {
+        activityMap.set(displayName.toLowerCase(), activity);
+        sortedActivityNames.push(displayName);
+      }
+    });
+    
+    // Sort by length (longest first) for proper matching
+    sortedActivityNames.sort((a, b) => b.length - a.length);
+  }
+
+  // Build tool lookup structures
+  const toolMap = new Map<string, Tool>();
+  const sortedToolNames: string[] = [];
+  
+  if (tools.length > 0) {
+    tools.forEach(tool => {
+      const displayName = tool.displayName;
+      if (displayName && displayName.toLowerCase() !== 'other') {
+        toolMap.set(displayName.toLowerCase(), tool);
+        sortedToolNames.push(displayName);
+      }
+    });
+    
+    // Sort by length (longest first) for proper matching
+    sortedToolNames.sort((a, b) => b.length - a.length);
+  }
+  
+  const escapeRegex = (str: string) => {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  };
+  
+  const processActivityLinks = (text: string): (string | React.JSX.Element)[] => {
+    if (sortedActivityNames.length === 0) {
+      return [text];
+    }
+    
+    let result: (string | React.JSX.Element)[] = [text];
+    
+    sortedActivityNames.forEach((activityName, index) => {
+      const newResult: (string | React.JSX.Element)[] = [];
+      
+      result.forEach((item) => {
+        if (typeof item === 'string') {
+          const regex = new RegExp(`\\b${escapeRegex(activityName)}\\b`, 'gi');
+          const parts = item.split(regex);
+          const matches = item.match(regex) || [];
+          
+          for (let i = 0; i < parts.length; i++) {
+            if (parts[i]) {
+              newResult.push(parts[i]);
+            }
+            if (i < matches.length) {
+              const activity = activityMap.get(activityName.toLowerCase());
+              if (activity) {
+                newResult.push(
+                  <ActivityLink key={`activity-${activity.id}-${index}-${i}`} activity={activity}>
+                    {matches[i]}
+                  </ActivityLink>
+                );
+              } else {
+                newResult.push(matches[i]);
+              }
+            }
+          }
+        } else {
+          newResult.push(item);
+        }
+      });
+      
+      result = newResult;
+    });
+    
+    return result;
+  };
+
+  const processToolLinks = (text: string): (string | React.JSX.Element)[] => {
+    if (sortedToolNames.length === 0) {
+      return [text];
+    }
+    
+    let result: (string | React.JSX.Element)[] = [text];
+    
+    sortedToolNames.forEach((toolName, index) => {
+      const newResult: (string | React.JSX.Element)[] = [];
+      
+      result.forEach((item) => {
+        if (typeof item === 'string') {
+          const regex = new RegExp(`\\b${escapeRegex(toolName)}\\b`, 'gi');
+          const parts = item.split(regex);
+          const matches = item.match(regex) || [];
+          
+          for (let i = 0; i < parts.length; i++) {
+            if (parts[i]) {
+              newResult.push(parts[i]);
+            }
+            if (i < matches.length) {
+              const tool = toolMap.get(toolName.toLowerCase());
+              if (tool) {
+                newResult.push(
+                  <ActivityLink key={`tool-${tool.id}-${index}-${i}`} activity={tool}>
+                    {matches[i]}
+                  </ActivityLink>
+                );
+              } else {
+                newResult.push(matches[i]);
+              }
+            }
+          }
+        } else {
+          newResult.push(item);
+        }
+      });
+      
+      result = newResult;
+    });
+    
+    return result;
+  };
+  
+  const urlRegex = /(https?:\/\/[^\s]+)/g;
+  
+  const formatTextWithLinks = (text: string) => {
+    // First process activity links, then tool links
+    const withActivityLinks = processActivityLinks(text);
+    
+    // Process tool links on the result
+    const finalProcessed: (string | React.JSX.Element)[] = [];
+    
+    withActivityLinks.forEach((item) => {
+      if (typeof item === 'string') {
+        const withToolLinks = processToolLinks(item);
+        finalProcessed.push(...withToolLinks);
+      } else {
+        finalProcessed.push(item);
+      }
+    });
+    
+    // Then process URL links on string parts only
+    const finalResult: (string | React.JSX.Element)[] = [];
+    
+    finalProcessed.forEach((item, itemIndex) => {
+      if (typeof item === 'string') {
+        const parts = item.split(urlRegex);
+        parts.forEach((part, partIndex) => {
+          if (urlRegex.test(part)) {
+            finalResult.push(
+              <a
+                key={`url-${itemIndex}-${partIndex}`}
+                href={part}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline hover:no-underline transition-all duration-200"
+                style={{ color: '#6544E9' }}
+                onClick={(e) => e.stopPropagation()}
+              >
+                {part}
+              </a>
+            );
+          } else if (part) {
+            finalResult.push(part);
+          }
+        });
+      } else {
+        finalResult.push(item);
+      }
+    });
+    
+    return finalResult;
+  };
+  
+  const lines = children.split('\n');
+  const elements = [];
+  let currentList: string[] = [];
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    
+    if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
+      currentList.push(trimmed.substring(2));
+    } else {
+      if (currentList.length > 0) {
+        elements.push(
+          <ul key={`list-${i}`} className="list-disc list-inside mb-2 space-y-1">
+            {currentList.map((item, idx) => (
+              <li key={idx} className="text-gray-700">
+                {formatTextWithLinks(item)}
+              </li>
+            ))}
+          </ul>
+        );
+        currentList = [];
+      }
+      
+      if (trimmed || elements.length === 0) {
+        elements.push(
+          <div key={`text-${i}`} className={`${trimmed ? "mb-2" : "mb-1"} text-gray-700`}>
+            {line ? formatTextWithLinks(line) : '\u00A0'}
+          </div>
+        );
+      }
+    }
+  }
+  
+  if (currentList.length > 0) {
+    elements.push(
+      <ul key="list-final" className="list-disc list-inside mb-2 space-y-1">
+        {currentList.map((item, idx) => (
+          <li key={idx} className="text-gray-700">
+            {formatTextWithLinks(item)}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  
+  return <div>{elements}</div>;
+};
+
+const TipsSection = ({ content, activities = [], tools = [], currentActivityId }: { 
+  content?: string; 
+  activities?: Activity[];
+  tools?: Tool[];
+  currentActivityId?: string;
+}) => {
+  const [tipsOpen, setTipsOpen] = useState(false);
+  
+  const toggleTips = () => {
+    setTipsOpen(prev => !prev);
+  };
+
+  if (!content) return null;
+
+  return (
+    <div>
+      <button 
+        className="w-full text-left rounded-lg p-3 transition-colors duration-200 focus:outline-none focus:ring-2 bg-gray-100 hover:bg-gray-200"
+        style={{ 
+          border: `2px solid #6544E9`
+        }}
+        onClick={toggleTips}
+      >
+        <h4 className="font-extrabold flex items-center gap-2" style={{ color: '#6544E9' }}>
+          <span className={`transform transition-transform ${tipsOpen ? 'rotate-90' : ''}`}>▶</span>
+          Tips and Tricks 🎯🧠
+        </h4>
+      </button>
+      {tipsOpen && (
+        <div className="mt-2 ml-6">
+          <FormattedText activities={activities} tools={tools} currentActivityId={currentActivityId}>{content}</FormattedText>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DemoSection = ({ demoUrl }: { demoUrl?: string }) => {
+  const [demoOpen, setDemoOpen] = useState(false);
+  
+  const toggleDemo = () => {
+    setDemoOpen(prev => !prev);
+  };
+
+  if (!demoUrl) return null;
+
+  return (
+    <div>
+      <button 
+        className="w-full text-left rounded-lg p-3 transition-colors duration-200 focus:outline-none focus:ring-2 bg-gray-100 hover:bg-gray-200"
+        style={{ 
+          border: `2px solid #6544E9`
+        }}
+        onClick={toggleDemo}
+      >
+        <h4 className="font-extrabold flex items-center gap-2" style={{ color: '#6544E9' }}>
+          <span className={`transform transition-transform ${demoOpen ? 'rotate-90' : ''}`}>▶</span>
+          Demonstration video 🎥
+        </h4>
+      </button>
+      {demoOpen && (
+        <div className="mt-2 ml-6">
+          <Video title="" src={demoUrl} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Tool tooltip component
+const ToolTooltip = ({ tool, children }: { tool: Tool; children: React.ReactNode }) => {
+  const [showTooltip, setShowTooltip] = useState(false);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    window.open(`/tool/${tool.id}`, '_blank');
+  };
+
+  return (
+    <span className="relative inline-block">
+      <button
+        onClick={handleClick}
+        onMouseEnter={() => setShowTooltip(true)}
+        onMouseLeave={() => setShowTooltip(false)}
+        className="px-2 py-1 rounded-full text-xs font-medium font-roboto cursor-pointer transition-all duration-200 hover:shadow-md"
+        style={{ backgroundColor: '#F97316', color: '#FFFFFE' }}
+      >
+        {children}
+      </button>
+      
+      {showTooltip && (
+        <div 
+          className="absolute z-50 p-3 bg-white border rounded-lg shadow-xl w-80 -top-2 left-1/2 transform -translate-x-1/2 -translate-y-full"
+          style={{ borderColor: '#D1D5DB' }}
+        >
+          {/* Tooltip arrow */}
+          <div 
+            className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0"
+            style={{
+              borderLeft: '6px solid transparent',
+              borderRight: '6px solid transparent',
+              borderTop: '6px solid white'
+            }}
+          />
+          
+          <div className="space-y-2">
+            <h4 className="font-bold text-sm" style={{ color: '#230E77' }}>
+              {tool.displayName}
+            </h4>
+            
+            <p className="text-xs text-gray-700 leading-relaxed">
+              {tool.shortDescription}
+            </p>
+            
+            <div className="flex flex-wrap gap-1">
+              {tool.platforms.length > 0 && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#F97316', color: '#FFFFFE' }}>
+                  {tool.platforms.join(', ')}
+                </span>
+              )}
+              {tool.pricing && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#FDBA74', color: '#230E77' }}>
+                  {tool.pricing}
+                </span>
+              )}
+            </div>
+            
+            <p className="text-xs text-gray-500 italic">
+              Click to see tool details
+            </p>
+          </div>
+        </div>
+      )}
+    </span>
+  );
+};
+
+const CopyUrlButton = () => {
+  const [copied, setCopied] = useState(false);
+  
+  const copyUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy URL:', err);
+    }
+  };
+
+  return (
+    <button
+      onClick={copyUrl}
+      className="px-4 py-2 text-sm border rounded-lg hover:shadow-md transition-all duration-200 focus:outline-none focus:ring-2 bg-white flex items-center gap-2"
+      style={{ 
+        color: copied ? '#10B981' : '#6544E9',
+        borderColor: copied ? '#10B981' : '#6544E9'
+      }}
+    >
+      {copied ? (
+        <>
+          <span>✓</span>
+          Copied!
+        </>
+      ) : (
+        <>
+          <span>📋</span>
+          Copy URL
+        </>
+      )}
+    </button>
+  );
+};
+
+interface ActivityDetailProps {
+  activity: Activity;
+  activityTools: Tool[];
+  // Names in the Tools column that don't match any tool (`npm run validate` lists them too)
+  unresolvedToolNames: string[];
+}
+
+// Rendered on the server with the activity itself; the rest of the library
+// loads on the client and only adds the inline activity and tool links
+const ActivityDetail = ({ activity, activityTools, unresolvedToolNames }: ActivityDetailProps) => {
+  const { activities, tools } = useLibrary();
+
+  // Shows up under "recent" in the command palette
+  useEffect(() => {
+    addRecentItem(activity.id);
+  }, [activity.id]);
+
+  const whyUrl = getEmbedUrl(activity.videoWhatAndWhy);
+  const demoUrl = getEmbedUrl(activity.videoDemo);
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="container mx-auto px-4 py-6 max-w-4xl">
+        {/* Header with navigation */}
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <Link 
+            href="/activities" 
+            className="text-sm flex items-center gap-2 hover:underline"
+            style={{ color: '#6544E9' }}
+          >
+            ← Back to Activity Library
+          </Link>
+          <CopyUrlButton />
+        </div>
+
+        {/* Activity Card */}
+        <div className="bg-white rounded-xl shadow-lg relative">
+          {/* Top right buttons */}
+          <div className="absolute top-4 right-4 z-10 flex items-center gap-1">
+            <StarButton library="activities" itemId={activity.id} size="medium" />
+            <CollectionMenu library="activities" itemId={activity.id} size="medium" />
+            <LogPracticeButton activityId={activity.id} size="medium" />
+            <FeedbackButton 
+              type="activity" 
+              activityId={activity.id} 
+              activityName={activity.displayName}
+              size="medium"
+              className="bg-white shadow-sm border border-gray-200"
+            />
+          </div>
+
+          <header className="p-4 sm:p-6 border-b space-y-2 pr-20" style={{ borderColor: '#D1D5DB' }}>
+            <h1 className="text-2xl sm:text-3xl font-extrabold break-words" style={{ color: '#230E77' }}>
+              {activity.displayName}
+            </h1>
+            <pre className="text-sm whitespace-pre-wrap break-words text-gray-700">
+              {activity.shortDescription}
+            </pre>
+            <p className="text-xs font-roboto text-gray-400">
+              ID: {activity.id} &middot; Code: {activity.codeName}
+            </p>
+          </header>
+
+          <div className="p-4 sm:p-6 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {activity.type && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium font-roboto" style={{ backgroundColor: '#F3CE5B', color: '#230E77' }}>
+                  {activity.type}
+                </span>
+              )}
+              {activity.pillar && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium font-roboto" style={{ backgroundColor: '#6544E9', color: '#FFFFFE' }}>
+                  {activity.pillar}
+                </span>
+              )}
+              {activity.phases.map((p, i) => (
+                <span key={i} className="px-2 py-1 rounded-full text-xs font-medium font-roboto" style={{ backgroundColor: '#BFB2F6', color: '#230E77' }}>
+                  Phase {p}
+                </span>
+              ))}
+            </div>
+
+            {/* Tools section */}
+            {activityTools.length + unresolvedToolNames.length > 0 && (
+              <div>
+                <div className="text-sm font-medium text-gray-700 mb-2">Recommended Tools:</div>
+                <div className="flex flex-wrap gap-2">
+                  {activityTools.map((tool, i) => (
+                    <ToolTooltip key={i} tool={tool}>
+                      {tool.displayName}
+                    </ToolTooltip>
+                  ))}
+                  {unresolvedToolNames.map(name => (
+                    <span
+                      key={name}
+                      className="px-2 py-1 rounded-full text-xs font-medium font-roboto border border-dashed text-gray-500"
+                      style={{ borderColor: '#D1D5DB' }}
+                      title="Not in the Tool Library yet"
+                    >
+                      {name}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-4 text-sm text-gray-600">
+              {activity.parentSkills.length > 0 && (
+                <div className="break-words">
+                  <strong>Parent Skills:</strong> {activity.parentSkills.join(', ')}
+                </div>
+              )}
+              {activity.childTechniques.length > 0 && (
+                <div className="break-words">
+                  <strong>Child Techniques:</strong> {activity.childTechniques.join('; ')}
+                </div>
+              )}
+              {activity.parentCategories.length > 0 && (
+                <div className="break-words">
+                  <strong>Parent Categories:</strong> {activity.parentCategories.join(', ')}
+                </div>
+              )}
+              {activity.alternatives.length > 0 && (
+                <div className="break-words">
+                  <strong>Alternatives:</strong> {activity.alternatives.join(', ')}
+                </div>
+              )}
+              {activity.subTechniques.length > 0 && (
+                <div className="break-words">
+                  <strong>Sub-techniques:</strong> {activity.subTechniques.join('; ')}
+                </div>
+              )}
+            </div>
+
+            {activity.aliases.length > 0 && (
+              <p className="italic text-sm break-words font-roboto text-gray-600">
+                {activity.aliases.join(', ')}
+              </p>
+            )}
+          </div>
+
+          {/* Expanded content */}
+          <div className="p-4 sm:p-6 bg-gray-50 space-y-6">
+            <FormattedText activities={activities} tools={tools} currentActivityId={activity.id}>{activity.longDescription}</FormattedText>
+            {(whyUrl || demoUrl) && (
+              <div className="space-y-6">
+                {whyUrl && <Video title="What & Why" src={whyUrl} />}
+                <DemoSection demoUrl={demoUrl || undefined} />
+              </div>
+            )}
+            {activity.benefits.length > 0 && (
+              <div>
+                <strong style={{ color: '#230E77' }}>Benefits:</strong>
+                <ul className="list-disc list-inside mt-1 text-gray-700">
+                  {activity.benefits.map((b, i) => (
+                    <li key={i}>{b.trim()}</li>
+                  ))}
+                </ul>
+                <hr className="mt-6 border-gray-300" />
+              </div>
+            )}
+            {GUIDE_SECTIONS.map(sec => activity.guide[sec.key] && (
+              <div key={sec.key}>
+                <h4 className="font-extrabold" style={{ color: '#230E77' }}>
+                  {sec.title(activity.displayName)}
+                </h4>
+                <FormattedText activities={activities} tools={tools} currentActivityId={activity.id}>{activity.guide[sec.key]}</FormattedText>
+              </div>
+            ))}
+            <TipsSection content={activity.guide.tipsAndTricks} activities={activities} tools={tools} currentActivityId={activity.id} />
+            <NotesPanel library="activities" itemId={activity.id} accentColor="#6544E9" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityDetail;
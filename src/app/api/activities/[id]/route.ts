@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server';
+import { getActivity } from '../../../../lib/serverLibrary';
+import { jsonResponse, errorResponse, ApiError } from '../../../../lib/api';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const activity = await getActivity(id);
+    if (!activity) {
+      throw new ApiError(404, `Activity "${id}" not found`);
+    }
+
+    return jsonResponse(activity);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server';
+import { getLibrary } from '../../../lib/serverLibrary';
+import { matchesActivityFilters } from '../../../lib/filters';
+import { jsonResponse, errorResponse, parseActivityFilters } from '../../../lib/api';
+
+// GET /api/activities?pillar=&phase=&parentSkill=&type= (each may be repeated to match any)
+export async function GET(request: NextRequest) {
+  try {
+    const filters = parseActivityFilters(request.nextUrl.searchParams);
+    const { activities } = await getLibrary();
+    const results = activities.filter(activity => matchesActivityFilters(activity, filters));
+
+    return jsonResponse({ count: results.length, activities: results });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { getLibrary } from '../../../lib/serverLibrary';
+import { LibraryItem } from '../../../lib/library';
+import { searchWithScoring } from '../../../lib/search';
+import { matchesActivityFilters, matchesToolFilters } from '../../../lib/filters';
+import {
+  jsonResponse,
+  errorResponse,
+  parseActivityFilters,
+  parseToolFilters,
+  ApiError
+} from '../../../lib/api';
+
+// GET /api/search?q=&library=activities|tools plus any list filters.
+// Activity filters only narrow activities and tool filters only narrow tools.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q') || '';
+    const library = params.get('library') || '';
+
+    if (!query.trim()) {
+      throw new ApiError(400, 'Missing search query "q"');
+    }
+    if (library && library !== 'activities' && library !== 'tools') {
+      throw new ApiError(400, 'library must be "activities" or "tools"');
+    }
+
+    const activityFilters = parseActivityFilters(params);
+    const toolFilters = parseToolFilters(params);
+    const { activities, tools } = await getLibrary();
+
+    const items: LibraryItem[] = [
+      ...(library === 'tools' ? [] : activities),
+      ...(library === 'activities' ? [] : tools)
+    ];
+
+    const results = searchWithScoring(items, query, { acrossLibraries: true }).filter(item =>
+      item.library === 'Activities'
+        ? matchesActivityFilters(item, activityFilters)
+        : matchesToolFilters(item, toolFilters)
+    );
+
+    return jsonResponse({ query, count: results.length, results });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
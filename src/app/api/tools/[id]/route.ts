@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server';
+import { getTool } from '../../../../lib/serverLibrary';
+import { jsonResponse, errorResponse, ApiError } from '../../../../lib/api';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const tool = await getTool(id);
+    if (!tool) {
+      throw new ApiError(404, `Tool "${id}" not found`);
+    }
+
+    return jsonResponse(tool);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
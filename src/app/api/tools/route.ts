@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server';
+import { getLibrary } from '../../../lib/serverLibrary';
+import { matchesToolFilters } from '../../../lib/filters';
+import { jsonResponse, errorResponse, parseToolFilters } from '../../../lib/api';
+
+// GET /api/tools?pricing=&techLevel=&platform=&language=
+export async function GET(request: NextRequest) {
+  try {
+    const filters = parseToolFilters(request.nextUrl.searchParams);
+    const { tools } = await getLibrary();
+    const results = tools.filter(tool => matchesToolFilters(tool, filters));
+
+    return jsonResponse({ count: results.length, tools: results });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
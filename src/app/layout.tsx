@@ -2,7 +2,12 @@ import type { Metadata, Viewport } from 'next'
 import { Inter, Roboto } from 'next/font/google'
 import { Analytics } from '@vercel/analytics/react'
 import './globals.css'
-import { StarredProvider } from '../contexts/StarredContext'
+import { FavoritesProvider } from '../contexts/FavoritesContext'
+import { NotesProvider } from '../contexts/NotesContext'
+import { PhaseProvider } from '../contexts/PhaseContext'
+import { PracticeLogProvider } from '../contexts/PracticeLogContext'
+import { LibraryProvider } from '../contexts/LibraryContext'
+import CommandPalette from '../components/CommandPalette'
 
 const inter = Inter({ 
   subsets: ['latin'],
@@ -40,9 +45,18 @@ export default function RootLayout({
         <link href="https://cdn.jsdelivr.net/npm/tailwindcss@2.2.19/dist/tailwind.min.css" rel="stylesheet" />
       </head>
       <body className={`${inter.className} ${roboto.variable}`}>
-        <StarredProvider>
-          {children}
-        </StarredProvider>
+        <LibraryProvider>
+          <FavoritesProvider>
+            <NotesProvider>
+              <PhaseProvider>
+                <PracticeLogProvider>
+                  {children}
+                  <CommandPalette />
+                </PracticeLogProvider>
+              </PhaseProvider>
+            </NotesProvider>
+          </FavoritesProvider>
+        </LibraryProvider>
         <Analytics />
       </body>
     </html>
@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import ActivityLink from '../../components/ActivityLink';
+import { useLibrary } from '../../contexts/LibraryContext';
+import { useUrlState } from '../../hooks/useUrlState';
+import { PHASES, PRICING_TIERS, TECH_LEVELS } from '../../lib/library';
+import { getPillarColor } from '../../lib/routine';
+import { downloadFile } from '../../lib/download';
+import {
+  MatrixFilters,
+  EMPTY_MATRIX_FILTERS,
+  matrixFiltersFromParams,
+  matrixFiltersToParams,
+  buildMatrix,
+  exportMatrixCsv
+} from '../../lib/matrix';
+
+// The tool-name header row sits right under the platform row, so both stick
+const PLATFORM_ROW_HEIGHT = '2rem';
+
+const selectClass = 'px-3 py-2 border rounded-lg bg-white shadow-sm text-sm focus:ring-2 text-gray-800';
+
+interface PillarRowsProps {
+  pillar: string;
+  columnCount: number;
+  children: React.ReactNode;
+}
+
+// A labelled band above each pillar's activities
+const PillarRows = ({ pillar, columnCount, children }: PillarRowsProps) => (
+  <>
+    <tr>
+      <th
+        className="sticky left-0 z-10 border-b border-r px-3 py-1 text-left text-xs font-semibold uppercase tracking-wide"
+        style={{ backgroundColor: getPillarColor(pillar), color: '#FFFFFE', borderColor: '#D1D5DB' }}
+      >
+        {pillar}
+      </th>
+      <td colSpan={columnCount} className="border-b" style={{ backgroundColor: '#F9FAFB', borderColor: '#D1D5DB' }} />
+    </tr>
+    {children}
+  </>
+);
+
+export default function MatrixPage() {
+  const { activities, tools, relationships, isLoaded } = useLibrary();
+  const [filters, setFilters] = useState<MatrixFilters>(EMPTY_MATRIX_FILTERS);
+
+  const urlParams = useMemo(() => {
+    const params = new URLSearchParams();
+    matrixFiltersToParams(filters, params);
+    return params;
+  }, [filters]);
+
+  useUrlState(urlParams, params => setFilters(matrixFiltersFromParams(params)));
+
+  const updateFilter = <K extends keyof MatrixFilters>(key: K, value: MatrixFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const matrix = useMemo(
+    () => buildMatrix(activities, tools, relationships, filters),
+    [activities, tools, relationships, filters]
+  );
+
+  const columnTools = matrix.columns.flatMap(group => group.tools);
+  const rowCount = matrix.rows.reduce((sum, group) => sum + group.activities.length, 0);
+  const hasFilters = filters.phase !== '' || filters.pricing !== '' || filters.techLevel !== '';
+
+  const handleExport = () => {
+    downloadFile('refold-activity-tool-matrix.csv', exportMatrixCsv(matrix), 'text/csv');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="container mx-auto px-4 py-6">
+        <div className="mb-6 flex flex-wrap items-center gap-4">
+          <Link href="/activities" className="text-sm hover:underline" style={{ color: '#6544E9' }}>
+            ← Activity Library
+          </Link>
+          <Link href="/tools" className="text-sm hover:underline" style={{ color: '#F97316' }}>
+            ← Tool Library
+          </Link>
+        </div>
+
+        <header className="mb-6">
+          <h1 className="text-3xl font-extrabold" style={{ color: '#230E77' }}>Activity–Tool Matrix</h1>
+          <p className="mt-2 text-sm font-roboto text-gray-600">
+            {!isLoaded
+              ? 'Loading...'
+              : `Which tools support which activities: ${rowCount} activities × ${columnTools.length} tools. Hover an activity for a preview.`}
+          </p>
+        </header>
+
+        <div className="mb-4 flex flex-wrap items-center gap-3">
+          <select value={filters.phase} onChange={e => updateFilter('phase', e.target.value)} className={selectClass} style={{ borderColor: '#D1D5DB' }}>
+            <option value="">All phases</option>
+            {PHASES.map(phase => <option key={phase} value={phase}>Phase {phase}</option>)}
+          </select>
+          <select value={filters.pricing} onChange={e => updateFilter('pricing', e.target.value)} className={selectClass} style={{ borderColor: '#D1D5DB' }}>
+            <option value="">Any pricing</option>
+            {PRICING_TIERS.map(tier => <option key={tier} value={tier}>{tier}</option>)}
+          </select>
+          <select value={filters.techLevel} onChange={e => updateFilter('techLevel', e.target.value)} className={selectClass} style={{ borderColor: '#D1D5DB' }}>
+            <option value="">Any tech level</option>
+            {TECH_LEVELS.map(level => <option key={level} value={String(level)}>Tech level {level} or lower</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filters.showEmpty}
+              onChange={e => updateFilter('showEmpty', e.target.checked)}
+              className="rounded"
+              style={{ accentColor: '#6544E9' }}
+            />
+            Show rows and columns without markers
+          </label>
+          {hasFilters && (
+            <button onClick={() => setFilters(EMPTY_MATRIX_FILTERS)} className="text-sm text-gray-500 hover:underline">
+              Clear filters
+            </button>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={!isLoaded || rowCount === 0}
+            className="ml-auto px-3 py-2 text-sm border rounded-lg bg-white hover:shadow-md transition-all duration-200 focus:outline-none focus:ring-2 disabled:opacity-50"
+            style={{ color: '#6B7280', borderColor: '#D1D5DB' }}
+          >
+            Export CSV
+          </button>
+        </div>
+
+        {isLoaded && (rowCount === 0 || columnTools.length === 0) && (
+          <p className="text-gray-600">No activities and tools match these filters.</p>
+        )}
+
+        {isLoaded && rowCount > 0 && columnTools.length > 0 && (
+          <div className="bg-white rounded-xl shadow-lg overflow-auto" style={{ maxHeight: '75vh' }}>
+            <table className="text-sm border-separate" style={{ borderSpacing: 0 }}>
+              <thead>
+                <tr>
+                  <th
+                    rowSpan={2}
+                    className="sticky left-0 top-0 z-30 bg-white border-b border-r p-3 text-left align-bottom font-semibold"
+                    style={{ color: '#230E77', borderColor: '#D1D5DB', minWidth: '14rem' }}
+                  >
+                    Activity
+                  </th>
+                  {matrix.columns.map(group => (
+                    <th
+                      key={group.platform}
+                      colSpan={group.tools.length}
+                      className="sticky top-0 z-20 bg-gray-50 border-b border-r px-2 text-left text-xs font-semibold uppercase tracking-wide text-gray-500 whitespace-nowrap"
+                      style={{ borderColor: '#D1D5DB', height: PLATFORM_ROW_HEIGHT }}
+                    >
+                      {group.platform}
+                    </th>
+                  ))}
+                </tr>
+                <tr>
+                  {matrix.columns.map(group => group.tools.map((tool, i) => (
+                    <th
+                      key={tool.id}
+                      className={`sticky z-20 bg-white border-b p-1 align-bottom font-medium ${i === group.tools.length - 1 ? 'border-r' : ''}`}
+                      style={{ top: PLATFORM_ROW_HEIGHT, borderColor: '#D1D5DB' }}
+                    >
+                      <Link
+                        href={`/tool/${tool.id}`}
+                        className="hover:underline whitespace-nowrap"
+                        style={{ color: '#F97316', writingMode: 'vertical-rl', transform: 'rotate(180deg)' }}
+                        title={[tool.shortDescription, tool.pricing, tool.techLevel !== null ? `Tech Level ${tool.techLevel}` : '']
+                          .filter(Boolean)
+                          .join(' · ')}
+                      >
+                        {tool.displayName}
+                      </Link>
+                    </th>
+                  )))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.rows.map(({ pillar, activities: grouped }) => (
+                  <PillarRows key={pillar} pillar={pillar} columnCount={columnTools.length}>
+                    {grouped.map(activity => (
+                      <tr key={activity.id} className="hover:bg-gray-50">
+                        <th
+                          className="sticky left-0 z-10 bg-white border-b border-r px-3 py-2 text-left font-normal"
+                          style={{ borderColor: '#E5E7EB' }}
+                        >
+                          <ActivityLink activity={activity} tooltipAlign="start">{activity.displayName}</ActivityLink>
+                          {activity.phases.length > 0 && (
+                            <span className="ml-2 text-xs text-gray-400 whitespace-nowrap">Phase {activity.phases.join(', ')}</span>
+                          )}
+                        </th>
+                        {columnTools.map(tool => {
+                          const isLinked = matrix.isLinked(activity.id, tool.id);
+                          return (
+                            <td
+                              key={tool.id}
+                              className="border-b text-center"
+                              style={{ borderColor: '#E5E7EB', minWidth: '2rem' }}
+                              title={isLinked ? `${activity.displayName} uses ${tool.displayName}` : undefined}
+                            >
+                              {isLinked && <span style={{ color: getPillarColor(pillar) }}>●</span>}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </PillarRows>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import Link from 'next/link';
+
+export default function NotFound() {
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+      <div className="text-center">
+        <h1 className="text-2xl font-extrabold mb-4" style={{ color: '#230E77' }}>Page Not Found</h1>
+        <p className="text-gray-600 mb-6">This activity or tool doesn&apos;t exist, or its link has changed.</p>
+        <div className="flex justify-center gap-3">
+          <Link
+            href="/activities"
+            className="px-4 py-2 rounded-lg transition-colors duration-200"
+            style={{ backgroundColor: '#6544E9', color: '#FFFFFE' }}
+          >
+            ← Activity Library
+          </Link>
+          <Link
+            href="/tools"
+            className="px-4 py-2 rounded-lg transition-colors duration-200"
+            style={{ backgroundColor: '#F97316', color: '#FFFFFE' }}
+          >
+            ← Tool Library
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+'use client';
+
+import { useState, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { useLibrary } from '../../contexts/LibraryContext';
+import { usePracticeLog } from '../../contexts/PracticeLogContext';
+import { PILLARS } from '../../lib/library';
+import { formatMinutes, getPillarColor } from '../../lib/routine';
+import { downloadFile } from '../../lib/download';
+import {
+  PracticeEntry,
+  PracticeImportMode,
+  toDateKey,
+  sortEntries,
+  getStreaks,
+  getWeeklyMinutes,
+  getWeeklySkills,
+  getTopActivities,
+  exportPracticeCsv,
+  parsePracticeCsv
+} from '../../lib/practiceLog';
+
+const CHART_WEEKS = 8;
+const TOP_ACTIVITY_COUNT = 5;
+const RECENT_ENTRY_COUNT = 20;
+
+const buttonClass = 'px-3 py-2 text-sm border rounded-lg bg-white hover:shadow-md transition-all duration-200 focus:outline-none focus:ring-2 disabled:opacity-50';
+
+const formatWeek = (weekStart: string) =>
+  new Date(`${weekStart}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+interface StatCardProps {
+  label: string;
+  value: string;
+}
+
+const StatCard = ({ label, value }: StatCardProps) => (
+  <div className="bg-white rounded-xl shadow-lg p-4">
+    <div className="text-2xl font-extrabold" style={{ color: '#230E77' }}>{value}</div>
+    <div className="text-sm text-gray-600">{label}</div>
+  </div>
+);
+
+const pluralDays = (count: number) => `${count} ${count === 1 ? 'day' : 'days'}`;
+
+export default function ProgressPage() {
+  const { activities, isLoaded } = useLibrary();
+  const { entries, deleteEntry, importEntries, isLoaded: logLoaded } = usePracticeLog();
+  const [pendingImport, setPendingImport] = useState<PracticeEntry[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [showAllEntries, setShowAllEntries] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const today = toDateKey(new Date());
+  const activitiesById = useMemo(() => new Map(activities.map(activity => [activity.id, activity])), [activities]);
+
+  const streaks = useMemo(() => getStreaks(entries, today), [entries, today]);
+  const weeks = useMemo(() => getWeeklyMinutes(entries, activities, today, CHART_WEEKS), [entries, activities, today]);
+  const skills = useMemo(() => getWeeklySkills(weeks), [weeks]);
+  const topActivities = useMemo(() => getTopActivities(entries, activities, TOP_ACTIVITY_COUNT), [entries, activities]);
+  const sortedEntries = useMemo(() => sortEntries(entries), [entries]);
+
+  const totalMinutes = entries.reduce((sum, entry) => sum + entry.minutes, 0);
+  const maxWeekMinutes = Math.max(...weeks.map(week => week.totalMinutes), 1);
+  const maxSkillMinutes = Math.max(...weeks.flatMap(week => Object.values(week.bySkill)), 1);
+  const visibleEntries = showAllEntries ? sortedEntries : sortedEntries.slice(0, RECENT_ENTRY_COUNT);
+
+  const handleExport = () => {
+    downloadFile('refold-practice-log.csv', exportPracticeCsv(entries, activities), 'text/csv');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { entries: imported, skippedRows } = parsePracticeCsv(await file.text(), activities);
+      if (imported.length === 0) {
+        setMessage('The file has no practice entries that match activities in the library');
+        return;
+      }
+      setPendingImport(imported);
+      setMessage(skippedRows.length > 0
+        ? `Skipped ${skippedRows.length} rows with an unknown activity, a bad date or no minutes (rows ${skippedRows.slice(0, 10).join(', ')}${skippedRows.length > 10 ? ', ...' : ''})`
+        : null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not import the practice log');
+    }
+  };
+
+  const confirmImport = (mode: PracticeImportMode) => {
+    if (!pendingImport) return;
+    importEntries(pendingImport, mode);
+    setPendingImport(null);
+    setMessage(mode === 'replace' ? 'Your practice log was replaced' : 'The imported entries were added to your log');
+  };
+
+  const isReady = isLoaded && logLoaded;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="container mx-auto px-4 py-6 max-w-5xl">
+        <div className="mb-6 flex flex-wrap items-center gap-4">
+          <Link href="/activities" className="text-sm hover:underline" style={{ color: '#6544E9' }}>
+            ← Activity Library
+          </Link>
+          <Link href="/routine" className="text-sm hover:underline" style={{ color: '#6544E9' }}>
+            Weekly routine
+          </Link>
+        </div>
+
+        <header className="mb-6">
+          <h1 className="text-3xl font-extrabold" style={{ color: '#230E77' }}>My Progress</h1>
+          <p className="mt-2 text-sm font-roboto text-gray-600">
+            {!isReady
+              ? 'Loading...'
+              : `${entries.length} practice sessions logged. Your log is saved in this browser.`}
+          </p>
+        </header>
+
+        {message && (
+          <div className="mb-4 px-4 py-3 rounded-lg text-sm" style={{ backgroundColor: '#F3F0FF', color: '#230E77' }}>
+            {message}
+          </div>
+        )}
+
+        {isReady && (
+          <>
+            <div className="mb-6 flex flex-wrap gap-2">
+              <button
+                onClick={handleExport}
+                disabled={entries.length === 0}
+                className={buttonClass}
+                style={{ color: '#6B7280', borderColor: '#D1D5DB' }}
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className={buttonClass}
+                style={{ color: '#6B7280', borderColor: '#D1D5DB' }}
+              >
+                Import CSV
+              </button>
+              <input ref={fileInputRef} type="file" accept="text/csv,.csv" onChange={handleImportFile} className="hidden" />
+            </div>
+
+            {pendingImport && (
+              <div className="mb-6 p-4 bg-white rounded-lg shadow-sm border" style={{ borderColor: '#D1D5DB' }}>
+                <p className="text-sm text-gray-700 mb-3">
+                  The file has {pendingImport.length} practice entries. Merge them into your log, or replace your log with them?
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <button onClick={() => confirmImport('merge')} className={buttonClass} style={{ color: '#6544E9', borderColor: '#6544E9' }}>
+                    Merge
+                  </button>
+                  <button onClick={() => confirmImport('replace')} className={buttonClass} style={{ color: '#DC2626', borderColor: '#DC2626' }}>
+                    Replace
+                  </button>
+                  <button onClick={() => setPendingImport(null)} className={buttonClass} style={{ color: '#6B7280', borderColor: '#D1D5DB' }}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {entries.length === 0 ? (
+              <p className="text-gray-600">
+                Use the clock button on any activity to log a practice session, and your streaks and charts will show up here.
+              </p>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <StatCard label="Current streak" value={pluralDays(streaks.current)} />
+                  <StatCard label="Longest streak" value={pluralDays(streaks.longest)} />
+                  <StatCard label="Days practiced" value={String(streaks.daysPracticed)} />
+                  <StatCard label="Total time" value={formatMinutes(totalMinutes)} />
+                </div>
+
+                <section className="bg-white rounded-xl shadow-lg p-6">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                    <h2 className="text-lg font-semibold" style={{ color: '#230E77' }}>Minutes per week</h2>
+                    <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+                      {PILLARS.map(pillar => (
+                        <span key={pillar} className="flex items-center gap-1">
+                          <span className="inline-block w-3 h-3 rounded" style={{ backgroundColor: getPillarColor(pillar) }} />
+                          {pillar}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-end gap-2" style={{ height: '10rem' }}>
+                    {weeks.map(week => (
+                      <div
+                        key={week.weekStart}
+                        className="flex-1 h-full flex flex-col justify-end"
+                        title={`Week of ${formatWeek(week.weekStart)}: ${formatMinutes(week.totalMinutes)}`}
+                      >
+                        {/* Stacked from the bottom: first pillar at the base */}
+                        <div className="flex flex-col-reverse rounded-t overflow-hidden" style={{ height: `${(week.totalMinutes / maxWeekMinutes) * 100}%` }}>
+                          {Object.entries(week.byPillar)
+                            .filter(([, minutes]) => minutes > 0)
+                            .map(([pillar, minutes]) => (
+                              <div key={pillar} style={{ height: `${(minutes / week.totalMinutes) * 100}%`, backgroundColor: getPillarColor(pillar) }} />
+                            ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    {weeks.map(week => (
+                      <div key={week.weekStart} className="flex-1 text-center text-xs text-gray-500">
+                        <div>{formatWeek(week.weekStart)}</div>
+                        <div className="font-medium text-gray-700">{week.totalMinutes > 0 ? formatMinutes(week.totalMinutes) : '–'}</div>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+
+                <div className="grid md:grid-cols-2 gap-6">
+                  <section className="bg-white rounded-xl shadow-lg p-6">
+                    <h3 className="font-semibold" style={{ color: '#230E77' }}>Parent skills per week</h3>
+                    <p className="text-xs text-gray-500 mb-2">Last {CHART_WEEKS} weeks, oldest first</p>
+                    {skills.length === 0 && (
+                      <p className="text-sm text-gray-600">Nothing logged in these weeks.</p>
+                    )}
+                    <div className="space-y-3">
+                      {skills.map(skill => (
+                        <div key={skill}>
+                          <div className="flex justify-between text-sm text-gray-700">
+                            <span>{skill}</span>
+                            <span>{formatMinutes(weeks.reduce((sum, week) => sum + (week.bySkill[skill] || 0), 0))}</span>
+                          </div>
+                          <div className="flex items-end gap-1 h-8">
+                            {weeks.map(week => {
+                              const minutes = week.bySkill[skill] || 0;
+                              return (
+                                <div
+                                  key={week.weekStart}
+                                  className="flex-1 h-full flex flex-col justify-end rounded-sm bg-gray-100"
+                                  title={`${skill}, week of ${formatWeek(week.weekStart)}: ${formatMinutes(minutes)}`}
+                                >
+                                  <div className="rounded-sm" style={{ height: `${(minutes / maxSkillMinutes) * 100}%`, backgroundColor: '#230E77' }} />
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </section>
+
+                  <section className="bg-white rounded-xl shadow-lg p-6">
+                    <h3 className="font-semibold mb-2" style={{ color: '#230E77' }}>Most practiced</h3>
+                    <ol className="space-y-2">
+                      {topActivities.map(({ activity, minutes, sessions }) => (
+                        <li key={activity.id} className="flex justify-between gap-2 text-sm">
+                          <Link href={`/activity/${activity.id}`} className="font-medium hover:underline truncate" style={{ color: '#6544E9' }}>
+                            {activity.displayName}
+                          </Link>
+                          <span className="text-gray-600 flex-shrink-0">
+                            {formatMinutes(minutes)} · {sessions} {sessions === 1 ? 'session' : 'sessions'}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  </section>
+                </div>
+
+                <section>
+                  <h2 className="text-lg font-semibold mb-3" style={{ color: '#230E77' }}>Log</h2>
+                  <div className="bg-white rounded-xl shadow-lg divide-y">
+                    {visibleEntries.map(entry => {
+                      const activity = activitiesById.get(entry.activityId);
+                      return (
+                        <div key={entry.id} className="flex items-center gap-3 px-4 py-3">
+                          <div className="w-28 flex-shrink-0 text-sm text-gray-600">{formatDay(entry.date)}</div>
+                          <div className="flex-1 min-w-0">
+                            {activity ? (
+                              <Link href={`/activity/${activity.id}`} className="font-semibold hover:underline" style={{ color: '#6544E9' }}>
+                                {activity.displayName}
+                              </Link>
+                            ) : (
+                              <span className="font-semibold text-gray-500">Removed activity ({entry.activityId})</span>
+                            )}
+                            {entry.note && <p className="text-sm text-gray-600 truncate">{entry.note}</p>}
+                          </div>
+                          <div className="text-sm font-medium text-gray-700 flex-shrink-0">{formatMinutes(entry.minutes)}</div>
+                          <button
+                            onClick={() => deleteEntry(entry.id)}
+                            className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-gray-100 focus:outline-none focus:ring-2"
+                            title="Delete entry"
+                            aria-label="Delete entry"
+                          >
+                            ×
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {sortedEntries.length > RECENT_ENTRY_COUNT && (
+                    <button
+                      onClick={() => setShowAllEntries(prev => !prev)}
+                      className="mt-3 text-sm hover:underline"
+                      style={{ color: '#6544E9' }}
+                    >
+                      {showAllEntries ? 'Show recent only' : `Show all ${sortedEntries.length} entries`}
+                    </button>
+                  )}
+                </section>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
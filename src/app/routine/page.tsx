@@ -0,0 +1,335 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { useLibrary } from '../../contexts/LibraryContext';
+import { useMyPhase } from '../../contexts/PhaseContext';
+import { usePersistedState } from '../../hooks/usePersistedState';
+import { searchWithScoring } from '../../lib/search';
+import type { PersistedStateConfig } from '../../lib/persistedState';
+import {
+  Routine,
+  ROUTINE_DAYS,
+  EMPTY_ROUTINE,
+  DEFAULT_SESSION_MINUTES,
+  isRoutine,
+  analyzeRoutine,
+  formatMinutes,
+  getPillarColor
+} from '../../lib/routine';
+import BreakdownChart from '../../components/BreakdownChart';
+import { PHASES } from '../../lib/library';
+import { createId } from '../../lib/ids';
+
+const ROUTINE_STATE: PersistedStateConfig<Routine> = {
+  key: 'refold-routine',
+  version: 1,
+  initialValue: EMPTY_ROUTINE,
+  isValid: isRoutine
+};
+
+// What's being dragged: a new activity from the list, or a session moving between days
+type DragPayload =
+  | { kind: 'activity'; activityId: string }
+  | { kind: 'session'; sessionId: string; fromDay: number };
+
+const DRAG_TYPE = 'application/x-refold-routine';
+
+export default function RoutinePage() {
+  const { activities, isLoaded } = useLibrary();
+  const [routine, setRoutine, routineLoaded] = usePersistedState(ROUTINE_STATE);
+  const { myPhase, setMyPhase } = useMyPhase();
+  const [query, setQuery] = useState('');
+  const [onlyPhaseActivities, setOnlyPhaseActivities] = useState(true);
+  const [targetDay, setTargetDay] = useState(0);
+  const [dragOverDay, setDragOverDay] = useState<number | null>(null);
+
+  const activitiesById = useMemo(() => new Map(activities.map(activity => [activity.id, activity])), [activities]);
+  const analysis = useMemo(() => analyzeRoutine(routine, activities, myPhase), [routine, activities, myPhase]);
+  const flaggedSessionIds = new Set(analysis.warnings.flatMap(warning => warning.sessionIds));
+
+  const paletteActivities = searchWithScoring(activities, query).filter(activity =>
+    !myPhase || !onlyPhaseActivities || activity.phases.includes(myPhase)
+  );
+
+  const updateDays = (update: (days: Routine['days']) => Routine['days']) => {
+    setRoutine(prev => ({ ...prev, days: update(prev.days) }));
+  };
+
+  const addSession = (day: number, activityId: string) => {
+    updateDays(days => days.map((sessions, index) =>
+      index === day ? [...sessions, { id: createId(), activityId, minutes: DEFAULT_SESSION_MINUTES }] : sessions
+    ));
+  };
+
+  const moveSession = (sessionId: string, fromDay: number, toDay: number) => {
+    if (fromDay === toDay) return;
+    updateDays(days => {
+      const session = days[fromDay].find(s => s.id === sessionId);
+      if (!session) return days;
+      return days.map((sessions, index) => {
+        if (index === fromDay) return sessions.filter(s => s.id !== sessionId);
+        if (index === toDay) return [...sessions, session];
+        return sessions;
+      });
+    });
+  };
+
+  const setSessionMinutes = (day: number, sessionId: string, minutes: number) => {
+    updateDays(days => days.map((sessions, index) =>
+      index === day ? sessions.map(s => (s.id === sessionId ? { ...s, minutes } : s)) : sessions
+    ));
+  };
+
+  const removeSession = (day: number, sessionId: string) => {
+    updateDays(days => days.map((sessions, index) =>
+      index === day ? sessions.filter(s => s.id !== sessionId) : sessions
+    ));
+  };
+
+  const clearRoutine = () => {
+    if (window.confirm('Remove every session from your routine?')) {
+      updateDays(() => EMPTY_ROUTINE.days);
+    }
+  };
+
+  const startDrag = (e: React.DragEvent, payload: DragPayload) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+    e.dataTransfer.effectAllowed = payload.kind === 'activity' ? 'copy' : 'move';
+  };
+
+  const handleDrop = (e: React.DragEvent, day: number) => {
+    e.preventDefault();
+    setDragOverDay(null);
+    const data = e.dataTransfer.getData(DRAG_TYPE);
+    if (!data) return;
+
+    const payload = JSON.parse(data) as DragPayload;
+    if (payload.kind === 'activity') {
+      addSession(day, payload.activityId);
+    } else {
+      moveSession(payload.sessionId, payload.fromDay, day);
+    }
+  };
+
+  const dayMinutes = (day: number) => routine.days[day].reduce((sum, session) => sum + session.minutes, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="container mx-auto px-4 py-6 max-w-6xl">
+        <div className="no-print mb-6 flex flex-wrap items-center gap-4">
+          <Link href="/activities" className="text-sm hover:underline" style={{ color: '#6544E9' }}>
+            ← Activity Library
+          </Link>
+          <Link href="/progress" className="text-sm hover:underline" style={{ color: '#6544E9' }}>
+            My progress
+          </Link>
+        </div>
+
+        <header className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-extrabold" style={{ color: '#230E77' }}>My Weekly Routine</h1>
+            <p className="mt-2 text-sm font-roboto text-gray-600">
+              {formatMinutes(analysis.totalMinutes)} per week
+              {myPhase && ` • Planned for phase ${myPhase}`}
+            </p>
+          </div>
+          <div className="no-print flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 text-sm font-roboto text-gray-600">
+              My phase
+              <select
+                value={myPhase}
+                onChange={e => setMyPhase(e.target.value)}
+                className="px-2 py-1 border rounded bg-white shadow-sm text-sm focus:ring-2 text-gray-800"
+                style={{ borderColor: '#D1D5DB' }}
+              >
+                <option value="">Not set</option>
+                {PHASES.map(phase => <option key={phase} value={phase}>Phase {phase}</option>)}
+              </select>
+            </label>
+            <button
+              onClick={() => window.print()}
+              className="px-3 py-2 text-sm border rounded-lg bg-white hover:shadow-md focus:outline-none focus:ring-2"
+              style={{ color: '#6544E9', borderColor: '#6544E9' }}
+            >
+              Print
+            </button>
+            <button
+              onClick={clearRoutine}
+              className="px-3 py-2 text-sm border rounded-lg bg-white hover:shadow-md focus:outline-none focus:ring-2"
+              style={{ color: '#6B7280', borderColor: '#D1D5DB' }}
+            >
+              Clear
+            </button>
+          </div>
+        </header>
+
+        {!isLoaded || !routineLoaded ? (
+          <p className="text-gray-600">Loading...</p>
+        ) : (
+          <div className="flex flex-col lg:flex-row gap-6">
+            {/* Activity list to drag from */}
+            <aside className="no-print lg:w-64 flex-shrink-0">
+              <div className="bg-white rounded-lg shadow-sm border p-3 lg:sticky lg:top-4" style={{ borderColor: '#D1D5DB' }}>
+                <input
+                  type="text"
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  placeholder="Find activities..."
+                  className="w-full px-3 py-2 border rounded text-sm text-gray-800 mb-2"
+                  style={{ borderColor: '#D1D5DB' }}
+                />
+                {myPhase && (
+                  <label className="flex items-center gap-2 text-xs text-gray-600 mb-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={onlyPhaseActivities}
+                      onChange={e => setOnlyPhaseActivities(e.target.checked)}
+                      className="rounded"
+                      style={{ accentColor: '#6544E9' }}
+                    />
+                    Only phase {myPhase} activities
+                  </label>
+                )}
+                <p className="text-xs text-gray-500 mb-2">
+                  Drag onto a day, or press + to add to {ROUTINE_DAYS[targetDay]}
+                </p>
+                <div className="space-y-1 max-h-96 overflow-y-auto">
+                  {paletteActivities.map(activity => (
+                    <div
+                      key={activity.id}
+                      draggable
+                      onDragStart={e => startDrag(e, { kind: 'activity', activityId: activity.id })}
+                      className="flex items-center gap-2 px-2 py-1 rounded border cursor-move hover:bg-gray-50"
+                      style={{ borderColor: '#E5E7EB' }}
+                    >
+                      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: getPillarColor(activity.pillar) }} />
+                      <span className="flex-1 text-sm text-gray-800 truncate" title={activity.shortDescription}>
+                        {activity.displayName}
+                      </span>
+                      <button
+                        onClick={() => addSession(targetDay, activity.id)}
+                        className="px-1 text-sm rounded hover:bg-gray-200 focus:outline-none"
+                        style={{ color: '#6544E9' }}
+                        title={`Add to ${ROUTINE_DAYS[targetDay]}`}
+                        aria-label={`Add ${activity.displayName} to ${ROUTINE_DAYS[targetDay]}`}
+                      >
+                        +
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </aside>
+
+            <div className="flex-1 min-w-0 space-y-6">
+              {/* Week */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-3">
+                {ROUTINE_DAYS.map((dayName, day) => (
+                  <div
+                    key={dayName}
+                    onDragOver={e => {
+                      e.preventDefault();
+                      setDragOverDay(day);
+                    }}
+                    onDragLeave={() => setDragOverDay(prev => (prev === day ? null : prev))}
+                    onDrop={e => handleDrop(e, day)}
+                    className="routine-day bg-white rounded-lg shadow-sm border-2 p-3"
+                    style={{ minHeight: '8rem', borderColor: dragOverDay === day ? '#6544E9' : targetDay === day ? '#C4B5FD' : '#E5E7EB' }}
+                  >
+                    <button
+                      onClick={() => setTargetDay(day)}
+                      className="w-full flex justify-between items-baseline mb-2 focus:outline-none"
+                      title="Add activities here with +"
+                    >
+                      <span className="font-semibold" style={{ color: '#230E77' }}>{dayName}</span>
+                      <span className="text-xs text-gray-500">{formatMinutes(dayMinutes(day))}</span>
+                    </button>
+                    <div className="space-y-2">
+                      {routine.days[day].map(session => {
+                        const activity = activitiesById.get(session.activityId);
+                        if (!activity) return null;
+                        const flagged = flaggedSessionIds.has(session.id);
+
+                        return (
+                          <div
+                            key={session.id}
+                            draggable
+                            onDragStart={e => startDrag(e, { kind: 'session', sessionId: session.id, fromDay: day })}
+                            className="rounded border p-2 cursor-move text-sm"
+                            style={{
+                              borderColor: flagged ? '#F59E0B' : '#E5E7EB',
+                              borderLeft: `4px solid ${getPillarColor(activity.pillar)}`,
+                              backgroundColor: flagged ? '#FFFBEB' : '#FFFFFE'
+                            }}
+                          >
+                            <div className="flex items-start gap-1">
+                              <Link href={`/activity/${activity.id}`} className="flex-1 font-medium hover:underline text-gray-800">
+                                {activity.displayName}
+                              </Link>
+                              <button
+                                onClick={() => removeSession(day, session.id)}
+                                className="no-print px-1 text-gray-400 hover:text-gray-700 focus:outline-none"
+                                aria-label={`Remove ${activity.displayName} from ${dayName}`}
+                              >
+                                ×
+                              </button>
+                            </div>
+                            <label className="mt-1 flex items-center gap-1 text-xs text-gray-600">
+                              <input
+                                type="number"
+                                min={5}
+                                max={600}
+                                step={5}
+                                value={session.minutes}
+                                onChange={e => setSessionMinutes(day, session.id, Math.max(0, Number(e.target.value) || 0))}
+                                className="w-16 px-1 py-0.5 border rounded text-gray-800"
+                                style={{ borderColor: '#D1D5DB' }}
+                              />
+                              min
+                            </label>
+                          </div>
+                        );
+                      })}
+                      {routine.days[day].length === 0 && (
+                        <p className="no-print text-xs text-gray-400 text-center py-4">Drop activities here</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Balance */}
+              <div className="bg-white rounded-lg shadow-sm border p-4 space-y-6" style={{ borderColor: '#D1D5DB' }}>
+                <h2 className="text-xl font-extrabold" style={{ color: '#230E77' }}>Balance</h2>
+                {analysis.totalMinutes === 0 ? (
+                  <p className="text-sm text-gray-600">Add some sessions to see how your week is balanced.</p>
+                ) : (
+                  <>
+                    {analysis.warnings.length > 0 ? (
+                      <ul className="space-y-2">
+                        {analysis.warnings.map(warning => (
+                          <li key={warning.message} className="px-3 py-2 rounded text-sm" style={{ backgroundColor: '#FFFBEB', color: '#92400E' }}>
+                            ⚠ {warning.message}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm" style={{ color: '#047857' }}>
+                        ✓ Your week looks balanced{myPhase && ` for phase ${myPhase}`}.
+                      </p>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <BreakdownChart title="By pillar" entries={analysis.byPillar} getColor={getPillarColor} />
+                      <BreakdownChart title="By parent skill" entries={analysis.byParentSkill} getColor={() => '#230E77'} />
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
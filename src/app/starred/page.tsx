@@ -0,0 +1,279 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import StarButton from '../../components/StarButton';
+import { useLibrary } from '../../contexts/LibraryContext';
+import { useFavorites } from '../../contexts/FavoritesContext';
+import {
+  FavoriteIds,
+  FavoriteLibrary,
+  FavoritesState,
+  FavoritesImportMode,
+  splitIdsByLibrary,
+  exportFavorites,
+  parseFavoritesFile,
+  getShareUrl,
+  parseShareIds,
+  SHARE_IDS_PARAM
+} from '../../lib/favorites';
+import type { LibraryItem } from '../../lib/library';
+import { downloadFile } from '../../lib/download';
+
+const LIBRARY_SECTIONS: { library: FavoriteLibrary; title: string; color: string; path: string }[] = [
+  { library: 'activities', title: 'Activities', color: '#6544E9', path: '/activity' },
+  { library: 'tools', title: 'Tools', color: '#F97316', path: '/tool' }
+];
+
+const buttonClass = 'px-3 py-2 text-sm border rounded-lg bg-white hover:shadow-md transition-all duration-200 focus:outline-none focus:ring-2 disabled:opacity-50';
+
+interface StarredListProps {
+  ids: FavoriteIds;
+  itemsById: Map<string, LibraryItem>;
+  // Shared lists are read-only; they only mark what's already in your own list
+  isShared: boolean;
+  isStarred: (library: FavoriteLibrary, itemId: string) => boolean;
+}
+
+const StarredList = ({ ids, itemsById, isShared, isStarred }: StarredListProps) => (
+  <div className="space-y-6">
+    {LIBRARY_SECTIONS.map(({ library, title, color, path }) => {
+      const items = ids[library]
+        .map(id => itemsById.get(id))
+        .filter((item): item is LibraryItem => item !== undefined);
+      if (items.length === 0) return null;
+
+      return (
+        <section key={library}>
+          <h2 className="text-lg font-semibold mb-3" style={{ color: '#230E77' }}>
+            {title} ({items.length})
+          </h2>
+          <div className="bg-white rounded-xl shadow-lg divide-y">
+            {items.map(item => (
+              <div key={item.id} className="flex items-center gap-3 px-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <Link href={`${path}/${item.id}`} className="font-semibold hover:underline" style={{ color }}>
+                    {item.displayName}
+                  </Link>
+                  <p className="text-sm text-gray-600 truncate">{item.shortDescription}</p>
+                </div>
+                {isShared ? (
+                  isStarred(library, item.id) && (
+                    <span className="text-xs font-medium flex-shrink-0" style={{ color: '#F59E0B' }}>★ In your list</span>
+                  )
+                ) : (
+                  <StarButton library={library} itemId={item.id} />
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+    })}
+  </div>
+);
+
+export default function StarredPage() {
+  const { activities, tools, isLoaded } = useLibrary();
+  const { favorites, starredIds, isStarred, importFavorites, isLoaded: favoritesLoaded } = useFavorites();
+  const [sharedIds, setSharedIds] = useState<string[] | null>(null);
+  const [pendingImport, setPendingImport] = useState<FavoritesState | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // A share link opens someone else's list instead of your own
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.has(SHARE_IDS_PARAM)) {
+      setSharedIds(parseShareIds(params.get(SHARE_IDS_PARAM)));
+    }
+  }, []);
+
+  const itemsById = useMemo(
+    () => new Map<string, LibraryItem>([...activities, ...tools].map(item => [item.id, item])),
+    [activities, tools]
+  );
+
+  const shared = useMemo(
+    () => sharedIds && splitIdsByLibrary(
+      sharedIds,
+      new Set(activities.map(activity => activity.id)),
+      new Set(tools.map(tool => tool.id))
+    ),
+    [sharedIds, activities, tools]
+  );
+
+  const starredCount = starredIds.activities.length + starredIds.tools.length;
+  const sharedCount = shared ? shared.activities.length + shared.tools.length : 0;
+
+  const showMyList = (text?: string) => {
+    window.history.replaceState(null, '', '/starred');
+    setSharedIds(null);
+    setMessage(text ?? null);
+  };
+
+  const adoptShared = (mode: FavoritesImportMode) => {
+    if (!shared) return;
+    if (mode === 'replace' && starredCount > 0 &&
+        !window.confirm(`Replace your ${starredCount} starred items with this list? Your collections are kept.`)) {
+      return;
+    }
+    // Collections aren't part of a share link, so replacing only swaps the starred items
+    importFavorites({ starred: shared, collections: mode === 'replace' ? favorites.collections : [] }, mode);
+    showMyList(mode === 'replace' ? 'Your starred list was replaced with the shared one' : 'The shared items were added to your starred list');
+  };
+
+  const handleExport = () => {
+    downloadFile('refold-starred.json', exportFavorites(favorites), 'application/json');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingImport(parseFavoritesFile(await file.text()));
+      setMessage(null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not import favorites');
+    }
+  };
+
+  const confirmImport = (mode: FavoritesImportMode) => {
+    if (!pendingImport) return;
+    importFavorites(pendingImport, mode);
+    setPendingImport(null);
+    setMessage(mode === 'replace' ? 'Your starred items and collections were replaced' : 'The imported items were added');
+  };
+
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(window.location.origin, starredIds));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+    }
+  };
+
+  const isReady = isLoaded && favoritesLoaded;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="container mx-auto px-4 py-6 max-w-4xl">
+        <div className="mb-6 flex flex-wrap items-center gap-4">
+          <Link href="/activities" className="text-sm hover:underline" style={{ color: '#6544E9' }}>
+            ← Activity Library
+          </Link>
+          <Link href="/tools" className="text-sm hover:underline" style={{ color: '#F97316' }}>
+            ← Tool Library
+          </Link>
+        </div>
+
+        <header className="mb-6">
+          <h1 className="text-3xl font-extrabold" style={{ color: '#230E77' }}>
+            {shared ? 'Shared Starred List' : 'My Starred Items'}
+          </h1>
+          <p className="mt-2 text-sm font-roboto text-gray-600">
+            {!isReady
+              ? 'Loading...'
+              : shared
+                ? `Someone shared ${sharedCount} activities and tools with you. Nothing changes in your list unless you adopt it.`
+                : `${starredCount} starred • ${favorites.collections.length} collections`}
+          </p>
+        </header>
+
+        {message && (
+          <div className="mb-4 px-4 py-3 rounded-lg text-sm" style={{ backgroundColor: '#F3F0FF', color: '#230E77' }}>
+            {message}
+          </div>
+        )}
+
+        {isReady && shared && (
+          <>
+            <div className="mb-6 flex flex-wrap gap-2">
+              <button
+                onClick={() => adoptShared('merge')}
+                disabled={sharedCount === 0}
+                className={buttonClass}
+                style={{ color: '#6544E9', borderColor: '#6544E9' }}
+              >
+                Add to my starred
+              </button>
+              <button
+                onClick={() => adoptShared('replace')}
+                disabled={sharedCount === 0}
+                className={buttonClass}
+                style={{ color: '#6B7280', borderColor: '#D1D5DB' }}
+              >
+                Replace my starred
+              </button>
+              <button
+                onClick={() => showMyList()}
+                className={buttonClass}
+                style={{ color: '#6B7280', borderColor: '#D1D5DB' }}
+              >
+                View my list
+              </button>
+            </div>
+            {sharedCount === 0
+              ? <p className="text-gray-600">This link doesn&apos;t contain any items that still exist in the library.</p>
+              : <StarredList ids={shared} itemsById={itemsById} isShared isStarred={isStarred} />}
+          </>
+        )}
+
+        {isReady && !shared && (
+          <>
+            <div className="mb-6 flex flex-wrap gap-2">
+              <button
+                onClick={copyShareLink}
+                disabled={starredCount === 0}
+                className={buttonClass}
+                style={{ color: '#6544E9', borderColor: '#6544E9' }}
+              >
+                {copied ? '✓ Link copied' : 'Copy share link'}
+              </button>
+              <button onClick={handleExport} className={buttonClass} style={{ color: '#6B7280', borderColor: '#D1D5DB' }}>
+                Export JSON
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className={buttonClass}
+                style={{ color: '#6B7280', borderColor: '#D1D5DB' }}
+              >
+                Import JSON
+              </button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+            </div>
+
+            {pendingImport && (
+              <div className="mb-6 p-4 bg-white rounded-lg shadow-sm border" style={{ borderColor: '#D1D5DB' }}>
+                <p className="text-sm text-gray-700 mb-3">
+                  The file has {pendingImport.starred.activities.length} activities, {pendingImport.starred.tools.length} tools
+                  and {pendingImport.collections.length} collections. Merge them into your list, or replace your list with them?
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <button onClick={() => confirmImport('merge')} className={buttonClass} style={{ color: '#6544E9', borderColor: '#6544E9' }}>
+                    Merge
+                  </button>
+                  <button onClick={() => confirmImport('replace')} className={buttonClass} style={{ color: '#DC2626', borderColor: '#DC2626' }}>
+                    Replace
+                  </button>
+                  <button onClick={() => setPendingImport(null)} className={buttonClass} style={{ color: '#6B7280', borderColor: '#D1D5DB' }}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {starredCount === 0
+              ? <p className="text-gray-600">Star activities and tools in the libraries and they&apos;ll show up here.</p>
+              : <StarredList ids={starredIds} itemsById={itemsById} isShared={false} isStarred={isStarred} />}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,660 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import FeedbackButton from '../../../components/FeedbackButton';
+import StarButton from '../../../components/StarButton';
+import CollectionMenu from '../../../components/CollectionMenu';
+import NotesPanel from '../../../components/NotesPanel';
+import ActivityLink from '../../../components/ActivityLink';
+import UsedForSection from '../../../components/UsedForSection';
+import { useLibrary } from '../../../contexts/LibraryContext';
+import { addRecentItem } from '../../../lib/recentItems';
+import { Activity, Tool, ToolGuide, PRICING_EXPLANATIONS, TECH_LEVEL_EXPLANATIONS } from '../../../lib/library';
+import { resolveToolNames } from '../../../lib/relationships';
+import { MAX_COMPARE_TOOLS, getComparePath } from '../../../lib/compare';
+
+interface FormattedTextProps {
+  children?: string;
+  tools?: Tool[];
+  currentToolId?: string;
+}
+
+const GUIDE_SECTIONS: { key: keyof ToolGuide; title: (name: string) => string }[] = [
+  { key: 'intro', title: name => `${name} Overview` },
+  { key: 'targetAudience', title: () => 'Who this tool is for' },
+  { key: 'issues', title: () => 'Common issues and questions' },
+  { key: 'setup', title: () => 'Setup' },
+  { key: 'walkthrough', title: () => 'Walkthrough' }
+];
+
+const getEmbedUrl = (url: string): string | null => {
+  if (!url) return null;
+  const match = url.match(/(?:youtu\.be\/|watch\?v=)([\w-]+)/);
+  return match ? `https://www.youtube.com/embed/${match[1]}` : null;
+};
+
+const Video = ({ title, src }: { title: string; src: string }) => (
+  <div>
+    <h3 className="font-semibold mb-2">{title}</h3>
+    <div className="px-0 sm:px-8 md:px-16 lg:px-24">
+      <div className="relative rounded overflow-hidden" style={{ paddingTop: '56.25%' }}>
+        <iframe 
+          className="absolute top-0 left-0 w-full h-full" 
+          src={src} 
+          title={title} 
+          frameBorder="0" 
+          allow="accelerometer; autoplay; encrypted-media; gyroscope; picture-in-picture" 
+          allowFullScreen 
+        />
+      </div>
+    </div>
+  </div>
+);
+
+// Tooltip component for badges with side positioning
+const TooltipBadge = ({ 
+  children, 
+  tooltip, 
+  backgroundColor, 
+  textColor 
+}: { 
+  children: React.ReactNode; 
+  tooltip: string; 
+  backgroundColor: string; 
+  textColor: string; 
+}) => {
+  const [showTooltip, setShowTooltip] = useState(false);
+  const triggerRef = useRef<HTMLSpanElement>(null);
+  const [position, setPosition] = useState<'left' | 'right'>('right');
+
+  useEffect(() => {
+    if (showTooltip && triggerRef.current) {
+      const triggerRect = triggerRef.current.getBoundingClientRect();
+      const tooltipWidth = 320;
+      const viewportWidth = window.innerWidth;
+      const margin = 16;
+
+      // Check if there's room on the right, otherwise go left
+      if (triggerRect.right + tooltipWidth + margin > viewportWidth) {
+        setPosition('left');
+      } else {
+        setPosition('right');
+      }
+    }
+  }, [showTooltip]);
+
+  return (
+    <span className="relative inline-block" ref={triggerRef}>
+      <span 
+        className="px-2 py-1 rounded-full text-xs font-medium font-roboto cursor-help" 
+        style={{ backgroundColor, color: textColor }}
+        onMouseEnter={() => setShowTooltip(true)}
+        onMouseLeave={() => setShowTooltip(false)}
+      >
+        {children}
+      </span>
+      
+      {showTooltip && (
+        <div 
+          className={`absolute z-50 p-3 bg-white border rounded-lg shadow-xl w-80 top-0 ${
+            position === 'right' ? 'left-full ml-2' : 'right-full mr-2'
+          }`}
+          style={{ borderColor: '#D1D5DB' }}
+        >
+          {/* Arrow pointing to the trigger */}
+          <div 
+            className={`absolute top-2 w-0 h-0 ${
+              position === 'right' ? '-left-1' : '-right-1'
+            }`}
+            style={{
+              borderTop: '6px solid transparent',
+              borderBottom: '6px solid transparent',
+              [position === 'right' ? 'borderRight' : 'borderLeft']: '6px solid white'
+            }}
+          />
+          <div className="text-sm text-gray-700">
+            {tooltip}
+          </div>
+        </div>
+      )}
+    </span>
+  );
+};
+
+const FormattedText = ({ children, tools = [], currentToolId }: FormattedTextProps) => {
+  if (!children) return null;
+  
+  // Build tool lookup structures
+  const toolMap = new Map<string, Tool>();
+  const sortedToolNames: string[] = [];
+  
+  if (tools.length > 0) {
+    tools.forEach(tool => {
+      const displayName = tool.displayName;
+      if (displayName && tool.id !== currentToolId && displayName.toLowerCase() !== 'other') {
+        toolMap.set(displayName.toLowerCase(), tool);
+        sortedToolNames.push(displayName);
+      }
+    });
+    
+    // Sort by length (longest first) for proper matching
+    sortedToolNames.sort((a, b) => b.length - a.length);
+  }
+  
+  const escapeRegex = (str: string) => {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  };
+  
+  const processToolLinks = (text: string): (string | React.JSX.Element)[] => {
+    if (sortedToolNames.length === 0) {
+      return [text];
+    }
+    
+    let result: (string | React.JSX.Element)[] = [text];
+    
+    sortedToolNames.forEach((toolName, index) => {
+      const newResult: (string | React.JSX.Element)[] = [];
+      
+      result.forEach((item) => {
+        if (typeof item === 'string') {
+          const regex = new RegExp(`\\b${escapeRegex(toolName)}\\b`, 'gi');
+          const parts = item.split(regex);
+          const matches = item.match(regex) || [];
+          
+          for (let i = 0; i < parts.length; i++) {
+            if (parts[i]) {
+              newResult.push(parts[i]);
+            }
+            if (i < matches.length) {
+              const tool = toolMap.get(toolName.toLowerCase());
+              if (tool) {
+                newResult.push(
+                  <ActivityLink key={`${tool.id}-${index}-${i}`} activity={tool}>
+                    {matches[i]}
+                  </ActivityLink>
+                );
+              } else {
+                newResult.push(matches[i]);
+              }
+            }
+          }
+        } else {
+          newResult.push(item);
+        }
+      });
+      
+      result = newResult;
+    });
+    
+    return result;
+  };
+  
+  const urlRegex = /(https?:\/\/[^\s]+)/g;
+  
+  const formatTextWithLinks = (text: string) => {
+    // First process tool links
+    const withToolLinks = processToolLinks(text);
+    
+    // Then process URL links on string parts only
+    const finalResult: (string | React.JSX.Element)[] = [];
+    
+    withToolLinks.forEach((item, itemIndex) => {
+      if (typeof item === 'string') {
+        const parts = item.split(urlRegex);
+        parts.forEach((part, partIndex) => {
+          if (urlRegex.test(part)) {
+            finalResult.push(
+              <a
+                key={`url-${itemIndex}-${partIndex}`}
+                href={part}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline hover:no-underline transition-all duration-200"
+                style={{ color: '#F97316' }}
+                onClick={(e) => e.stopPropagation()}
+              >
+                {part}
+              </a>
+            );
+          } else if (part) {
+            finalResult.push(part);
+          }
+        });
+      } else {
+        finalResult.push(item);
+      }
+    });
+    
+    return finalResult;
+  };
+  
+  const lines = children.split('\n');
+  const elements = [];
+  let currentList: string[] = [];
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    
+    if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
+      currentList.push(trimmed.substring(2));
+    } else {
+      if (currentList.length > 0) {
+        elements.push(
+          <ul key={`list-${i}`} className="list-disc list-inside mb-2 space-y-1">
+            {currentList.map((item, idx) => (
+              <li key={idx} className="text-gray-700">
+                {formatTextWithLinks(item)}
+              </li>
+            ))}
+          </ul>
+        );
+        currentList = [];
+      }
+      
+      if (trimmed || elements.length === 0) {
+        elements.push(
+          <div key={`text-${i}`} className={`${trimmed ? "mb-2" : "mb-1"} text-gray-700`}>
+            {line ? formatTextWithLinks(line) : '\u00A0'}
+          </div>
+        );
+      }
+    }
+  }
+  
+  if (currentList.length > 0) {
+    elements.push(
+      <ul key="list-final" className="list-disc list-inside mb-2 space-y-1">
+        {currentList.map((item, idx) => (
+          <li key={idx} className="text-gray-700">
+            {formatTextWithLinks(item)}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  
+  return <div>{elements}</div>;
+};
+
+// Inline version for alternatives that don't break to new lines
+const FormattedInlineText = ({ children, tools = [], currentToolId }: FormattedTextProps) => {
+  if (!children) return null;
+  
+  // Build tool lookup structures
+  const toolMap = new Map<string, Tool>();
+  const sortedToolNames: string[] = [];
+  
+  if (tools.length > 0) {
+    tools.forEach(tool => {
+      const displayName = tool.displayName;
+      if (displayName && tool.id !== currentToolId && displayName.toLowerCase() !== 'other') {
+        toolMap.set(displayName.toLowerCase(), tool);
+        sortedToolNames.push(displayName);
+      }
+    });
+    
+    // Sort by length (longest first) for proper matching
+    sortedToolNames.sort((a, b) => b.length - a.length);
+  }
+  
+  const escapeRegex = (str: string) => {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  };
+  
+  const processToolLinks = (text: string): (string | React.JSX.Element)[] => {
+    if (sortedToolNames.length === 0) {
+      return [text];
+    }
+    
+    let result: (string | React.JSX.Element)[] = [text];
+    
+    sortedToolNames.forEach((toolName, index) => {
+      const newResult: (string | React.JSX.Element)[] = [];
+      
+      result.forEach((item) => {
+        if (typeof item === 'string') {
+          const regex = new RegExp(`\\b${escapeRegex(toolName)}\\b`, 'gi');
+          const parts = item.split(regex);
+          const matches = item.match(regex) || [];
+          
+          for (let i = 0; i < parts.length; i++) {
+            if (parts[i]) {
+              newResult.push(parts[i]);
+            }
+            if (i < matches.length) {
+              const tool = toolMap.get(toolName.toLowerCase());
+              if (tool) {
+                newResult.push(
+                  <ActivityLink key={`${tool.id}-${index}-${i}`} activity={tool}>
+                    {matches[i]}
+                  </ActivityLink>
+                );
+              } else {
+                newResult.push(matches[i]);
+              }
+            }
+          }
+        } else {
+          newResult.push(item);
+        }
+      });
+      
+      result = newResult;
+    });
+    
+    return result;
+  };
+  
+  const urlRegex = /(https?:\/\/[^\s]+)/g;
+  
+  const formatTextWithLinks = (text: string) => {
+    // First process tool links
+    const withToolLinks = processToolLinks(text);
+    
+    // Then process URL links on string parts only
+    const finalResult: (string | React.JSX.Element)[] = [];
+    
+    withToolLinks.forEach((item, itemIndex) => {
+      if (typeof item === 'string') {
+        const parts = item.split(urlRegex);
+        parts.forEach((part, partIndex) => {
+          if (urlRegex.test(part)) {
+            finalResult.push(
+              <a
+                key={`url-${itemIndex}-${partIndex}`}
+                href={part}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline hover:no-underline transition-all duration-200"
+                style={{ color: '#F97316' }}
+                onClick={(e) => e.stopPropagation()}
+              >
+                {part}
+              </a>
+            );
+          } else if (part) {
+            finalResult.push(part);
+          }
+        });
+      } else {
+        finalResult.push(item);
+      }
+    });
+    
+    return finalResult;
+  };
+  
+  // For inline text, just process the links without wrapping in divs
+  return <span>{formatTextWithLinks(children)}</span>;
+};
+
+const TipsSection = ({ content, tools = [], currentToolId }: { 
+  content?: string; 
+  tools?: Tool[];
+  currentToolId?: string;
+}) => {
+  const [tipsOpen, setTipsOpen] = useState(false);
+  
+  const toggleTips = () => {
+    setTipsOpen(prev => !prev);
+  };
+
+  if (!content) return null;
+
+  return (
+    <div>
+      <button 
+        className="w-full text-left rounded-lg p-3 transition-colors duration-200 focus:outline-none focus:ring-2 bg-gray-100 hover:bg-gray-200"
+        style={{ 
+          border: `2px solid #F97316`
+        }}
+        onClick={toggleTips}
+      >
+        <h4 className="font-extrabold flex items-center gap-2" style={{ color: '#F97316' }}>
+          <span className={`transform transition-transform ${tipsOpen ? 'rotate-90' : ''}`}>▶</span>
+          Tips and Tricks 🎯🧠
+        </h4>
+      </button>
+      {tipsOpen && (
+        <div className="mt-2 ml-6">
+          <FormattedText tools={tools} currentToolId={currentToolId}>{content}</FormattedText>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DemoSection = ({ demoUrl }: { demoUrl?: string }) => {
+  const [demoOpen, setDemoOpen] = useState(false);
+  
+  const toggleDemo = () => {
+    setDemoOpen(prev => !prev);
+  };
+
+  if (!demoUrl) return null;
+
+  return (
+    <div>
+      <button 
+        className="w-full text-left rounded-lg p-3 transition-colors duration-200 focus:outline-none focus:ring-2 bg-gray-100 hover:bg-gray-200"
+        style={{ 
+          border: `2px solid #F97316`
+        }}
+        onClick={toggleDemo}
+      >
+        <h4 className="font-extrabold flex items-center gap-2" style={{ color: '#F97316' }}>
+          <span className={`transform transition-transform ${demoOpen ? 'rotate-90' : ''}`}>▶</span>
+          Demonstration video 🎥
+        </h4>
+      </button>
+      {demoOpen && (
+        <div className="mt-2 ml-6">
+          <Video title="" src={demoUrl} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CopyUrlButton = () => {
+  const [copied, setCopied] = useState(false);
+  
+  const copyUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy URL:', err);
+    }
+  };
+
+  return (
+    <button
+      onClick={copyUrl}
+      className="px-4 py-2 text-sm border rounded-lg hover:shadow-md transition-all duration-200 focus:outline-none focus:ring-2 bg-white flex items-center gap-2"
+      style={{ 
+        color: copied ? '#10B981' : '#F97316',
+        borderColor: copied ? '#10B981' : '#F97316'
+      }}
+    >
+      {copied ? (
+        <>
+          <span>✓</span>
+          Copied!
+        </>
+      ) : (
+        <>
+          <span>📋</span>
+          Copy URL
+        </>
+      )}
+    </button>
+  );
+};
+
+interface ToolDetailProps {
+  tool: Tool;
+  // Activities that list the tool in their Tools column
+  usedFor: Activity[];
+}
+
+const ToolDetail = ({ tool, usedFor }: ToolDetailProps) => {
+  const { tools } = useLibrary();
+
+  // Shows up under "recent" in the command palette
+  useEffect(() => {
+    addRecentItem(tool.id);
+  }, [tool.id]);
+
+  const whyUrl = getEmbedUrl(tool.videoWhatAndWhy);
+  const demoUrl = getEmbedUrl(tool.videoDemo);
+
+  const toolLinkData = tool.downloadLink;
+  const alternativeTools = resolveToolNames(tool.alternatives, tools).filter(alternative => alternative.id !== tool.id);
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="container mx-auto px-4 py-6 max-w-4xl">
+        {/* Header with navigation */}
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <Link 
+            href="/tools" 
+            className="text-sm flex items-center gap-2 hover:underline"
+            style={{ color: '#F97316' }}
+          >
+            ← Back to Tool Library
+          </Link>
+          <CopyUrlButton />
+        </div>
+
+        {/* Tool Card */}
+        <div className="bg-white rounded-xl shadow-lg relative">
+          {/* Top right buttons */}
+          <div className="absolute top-4 right-4 z-10 flex items-center gap-1">
+            <StarButton library="tools" itemId={tool.id} size="medium" />
+            <CollectionMenu library="tools" itemId={tool.id} size="medium" />
+            <FeedbackButton 
+              type="activity" 
+              activityId={tool.id} 
+              activityName={tool.displayName}
+              size="medium"
+              className="bg-white shadow-sm border border-gray-200"
+            />
+          </div>
+
+          <header className="p-4 sm:p-6 border-b space-y-2 pr-20" style={{ borderColor: '#D1D5DB' }}>
+            <h1 className="text-2xl sm:text-3xl font-extrabold break-words" style={{ color: '#230E77' }}>
+              {tool.displayName}
+            </h1>
+            <pre className="text-sm whitespace-pre-wrap break-words text-gray-700">
+              {tool.shortDescription}
+            </pre>
+            <p className="text-xs font-roboto text-gray-400">
+              ID: {tool.id} &middot; Code: {tool.codeName}
+            </p>
+          </header>
+
+          <div className="p-4 sm:p-6 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {tool.platforms.length > 0 && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium font-roboto" style={{ backgroundColor: '#F97316', color: '#FFFFFE' }}>
+                  {tool.platforms.join(', ')}
+                </span>
+              )}
+              {tool.pricing && (
+                <TooltipBadge
+                  tooltip={PRICING_EXPLANATIONS[tool.pricing] || tool.pricing}
+                  backgroundColor="#FDBA74"
+                  textColor="#230E77"
+                >
+                  {tool.pricing}
+                </TooltipBadge>
+              )}
+              {tool.techLevel !== null && (
+                <TooltipBadge
+                  tooltip={TECH_LEVEL_EXPLANATIONS[tool.techLevel] || `Tech Level: ${tool.techLevel}`}
+                  backgroundColor="#FED7AA"
+                  textColor="#230E77"
+                >
+                  Tech Level: {tool.techLevel}
+                </TooltipBadge>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 text-sm text-gray-600">
+              <div className="break-words">
+                <strong>Languages:</strong> {tool.languages.length === 0 ? 'All Languages' : tool.languages.join(', ')}
+              </div>
+              {tool.alternatives.length > 0 && (
+                <div className="break-words">
+                  <strong>Alternatives:</strong> <FormattedInlineText tools={tools} currentToolId={tool.id}>{tool.alternatives.join(', ')}</FormattedInlineText>
+                  {alternativeTools.length > 0 && (
+                    <Link
+                      href={getComparePath([tool.id, ...alternativeTools.map(alternative => alternative.id)].slice(0, MAX_COMPARE_TOOLS))}
+                      className="ml-2 underline hover:no-underline whitespace-nowrap"
+                      style={{ color: '#F97316' }}
+                    >
+                      Compare side by side
+                    </Link>
+                  )}
+                </div>
+              )}
+              {toolLinkData && (
+                <div className="break-words">
+                  <strong>Get the tool:</strong> 
+                  <a 
+                    href={toolLinkData.url} 
+                    target="_blank" 
+                    rel="noopener noreferrer"
+                    className="ml-2 underline hover:no-underline"
+                    style={{ color: '#F97316' }}
+                  >
+                    {toolLinkData.displayText}
+                  </a>
+                </div>
+              )}
+              <UsedForSection activities={usedFor} />
+            </div>
+          </div>
+
+          {/* Expanded content */}
+          <div className="p-4 sm:p-6 bg-gray-50 space-y-6">
+            <FormattedText tools={tools} currentToolId={tool.id}>{tool.longDescription}</FormattedText>
+            {(whyUrl || demoUrl) && (
+              <div className="space-y-6">
+                {whyUrl && <Video title="What & Why" src={whyUrl} />}
+                <DemoSection demoUrl={demoUrl || undefined} />
+              </div>
+            )}
+            {tool.benefits.length > 0 && (
+              <div>
+                <strong style={{ color: '#230E77' }}>Benefits:</strong>
+                <ul className="list-disc list-inside mt-1 text-gray-700">
+                  {tool.benefits.map((b, i) => (
+                    <li key={i}>{b}</li>
+                  ))}
+                </ul>
+                <hr className="mt-6 border-gray-300" />
+              </div>
+            )}
+            {GUIDE_SECTIONS.map(sec => tool.guide[sec.key] && (
+              <div key={sec.key}>
+                <h4 className="font-extrabold" style={{ color: '#230E77' }}>
+                  {sec.title(tool.displayName)}
+                </h4>
+                <FormattedText tools={tools} currentToolId={tool.id}>{tool.guide[sec.key]}</FormattedText>
+              </div>
+            ))}
+            <TipsSection content={tool.guide.tipsAndTricks} tools={tools} currentToolId={tool.id} />
+            <NotesPanel library="tools" itemId={tool.id} accentColor="#F97316" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ToolDetail;
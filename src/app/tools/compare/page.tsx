@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useLibrary } from '../../../contexts/LibraryContext';
+import {
+  COMPARE_IDS_PARAM,
+  MAX_COMPARE_TOOLS,
+  getComparePath,
+  parseCompareIds,
+  buildComparison
+} from '../../../lib/compare';
+import type { Tool } from '../../../lib/library';
+
+const DIFF_BACKGROUND = '#FFF7ED';
+
+export default function CompareToolsPage() {
+  const { tools, relationships, isLoaded } = useLibrary();
+  const [ids, setIds] = useState<string[]>([]);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setIds(parseCompareIds(params.get(COMPARE_IDS_PARAM)));
+  }, []);
+
+  // Keep the address shareable as tools are added and removed
+  const updateIds = (next: string[]) => {
+    setIds(next);
+    window.history.replaceState(null, '', getComparePath(next));
+  };
+
+  const compared = useMemo(
+    () => ids
+      .map(id => tools.find(tool => tool.id === id))
+      .filter((tool): tool is Tool => tool !== undefined),
+    [ids, tools]
+  );
+
+  const rows = useMemo(() => buildComparison(compared, relationships.activitiesByTool), [compared, relationships]);
+  const visibleRows = onlyDifferences ? rows.filter(row => row.differs) : rows;
+  const otherTools = tools
+    .filter(tool => !ids.includes(tool.id))
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="container mx-auto px-4 py-6 max-w-6xl">
+        <div className="mb-6">
+          <Link href="/tools" className="text-sm hover:underline" style={{ color: '#F97316' }}>
+            ← Tool Library
+          </Link>
+        </div>
+
+        <header className="mb-6">
+          <h1 className="text-3xl font-extrabold" style={{ color: '#230E77' }}>Compare Tools</h1>
+          <p className="mt-2 text-sm font-roboto text-gray-600">
+            {!isLoaded
+              ? 'Loading...'
+              : `Comparing ${compared.length} of up to ${MAX_COMPARE_TOOLS} tools. Rows where they differ are highlighted.`}
+          </p>
+        </header>
+
+        {isLoaded && (
+          <>
+            <div className="mb-6 flex flex-wrap items-center gap-4">
+              <select
+                value=""
+                onChange={e => e.target.value && updateIds([...ids, e.target.value])}
+                disabled={compared.length >= MAX_COMPARE_TOOLS}
+                className="px-3 py-2 border rounded-lg bg-white shadow-sm text-sm focus:ring-2 text-gray-800 disabled:opacity-50"
+                style={{ borderColor: '#D1D5DB' }}
+              >
+                <option value="">
+                  {compared.length >= MAX_COMPARE_TOOLS ? 'Remove a tool to add another' : '+ Add a tool'}
+                </option>
+                {otherTools.map(tool => (
+                  <option key={tool.id} value={tool.id}>{tool.displayName}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={onlyDifferences}
+                  onChange={e => setOnlyDifferences(e.target.checked)}
+                  className="rounded"
+                  style={{ accentColor: '#F97316' }}
+                />
+                Only show differences
+              </label>
+            </div>
+
+            {compared.length < 2 && (
+              <p className="mb-6 text-gray-600">
+                Pick at least two tools to compare, here or with the Compare checkbox on the tool cards.
+              </p>
+            )}
+
+            {compared.length > 0 && (
+              <div className="bg-white rounded-xl shadow-lg overflow-x-auto">
+                <table className="w-full text-sm text-left" style={{ minWidth: `${12 + compared.length * 14}rem` }}>
+                  <thead>
+                    <tr className="border-b" style={{ borderColor: '#D1D5DB' }}>
+                      <th className="p-4 w-40" />
+                      {compared.map(tool => (
+                        <th key={tool.id} className="p-4 align-top font-normal">
+                          <div className="flex items-start justify-between gap-2">
+                            <Link href={`/tool/${tool.id}`} className="text-lg font-extrabold hover:underline" style={{ color: '#230E77' }}>
+                              {tool.displayName}
+                            </Link>
+                            <button
+                              onClick={() => updateIds(ids.filter(id => id !== tool.id))}
+                              className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 focus:outline-none focus:ring-2"
+                              title="Remove from comparison"
+                              aria-label={`Remove ${tool.displayName} from comparison`}
+                            >
+                              ×
+                            </button>
+                          </div>
+                          <p className="mt-1 text-gray-600">{tool.shortDescription}</p>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(row => (
+                      <tr
+                        key={row.key}
+                        className="border-b last:border-b-0"
+                        style={{ borderColor: '#E5E7EB', backgroundColor: row.differs ? DIFF_BACKGROUND : undefined }}
+                      >
+                        <th className="p-4 align-top font-semibold" style={{ color: '#230E77' }}>
+                          {row.label}
+                          {row.differs && <div className="text-xs font-normal" style={{ color: '#EA580C' }}>Differs</div>}
+                        </th>
+                        {row.cells.map((cell, i) => (
+                          <td key={compared[i].id} className="p-4 align-top text-gray-700">
+                            {cell.items.length === 0 && (!cell.links || cell.links.length === 0) && (
+                              <span className="text-gray-400">–</span>
+                            )}
+                            {row.key === 'benefits' ? (
+                              <ul className="list-disc list-inside space-y-1">
+                                {cell.items.map((item, j) => <li key={j}>{item}</li>)}
+                              </ul>
+                            ) : (
+                              cell.items.length > 0 && <div className="font-medium">{cell.items.join(', ')}</div>
+                            )}
+                            {cell.explanation && <p className="mt-1 text-xs text-gray-500">{cell.explanation}</p>}
+                            {cell.links && cell.links.length > 0 && (
+                              <ul className="space-y-1">
+                                {cell.links.map(link => (
+                                  <li key={link.href}>
+                                    <a
+                                      href={link.href}
+                                      target={row.key === 'download' ? '_blank' : undefined}
+                                      rel={row.key === 'download' ? 'noopener noreferrer' : undefined}
+                                      className="underline hover:no-underline break-words"
+                                      style={{ color: row.key === 'download' ? '#F97316' : '#6544E9' }}
+                                    >
+                                      {link.label}
+                                    </a>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                    {visibleRows.length === 0 && (
+                      <tr>
+                        <td colSpan={compared.length + 1} className="p-4 text-gray-600">
+                          These tools match on every attribute.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
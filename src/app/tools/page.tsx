@@ -1,21 +1,36 @@
 'use client';
 
-import React, { useState, useEffect, useRef} from 'react';
-import Papa from 'papaparse';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import Link from 'next/link';
 import FeedbackButton from '../../components/FeedbackButton';
 import IntroModal from '../../components/IntroModal';
 import ActivityLink from '../../components/ActivityLink';
 import LibraryNavigation from '../../components/LibraryNavigation';
-import { useStarredActivities } from '../../contexts/StarredContext';
-import { searchWithScoring } from '../../lib/search';
-
-interface Tool {
-  [key: string]: string;
-}
-
-interface Activity {
-  [key: string]: string;
-}
+import HighlightedText from '../../components/HighlightedText';
+import MatchSnippet from '../../components/MatchSnippet';
+import FilterPresets from '../../components/FilterPresets';
+import CollectionMenu from '../../components/CollectionMenu';
+import CollectionFilter from '../../components/CollectionFilter';
+import NotesPanel from '../../components/NotesPanel';
+import UsedForSection from '../../components/UsedForSection';
+import { useFavorites } from '../../contexts/FavoritesContext';
+import { useNotes } from '../../contexts/NotesContext';
+import { attachNotes } from '../../lib/notes';
+import { useLibrary } from '../../contexts/LibraryContext';
+import { getFieldMatch, getDeepestMatch, FieldMatch } from '../../lib/search';
+import { useSearch } from '../../hooks/useSearch';
+import { useUrlState } from '../../hooks/useUrlState';
+import { useStoredState } from '../../hooks/useStoredState';
+import { TOOL_SORT_OPTIONS, ToolSortMode, isToolSortMode, sortTools, countToolRecommendations } from '../../lib/sort';
+import { Tool, ToolGuide, PRICING_EXPLANATIONS, TECH_LEVEL_EXPLANATIONS } from '../../lib/library';
+import { MAX_COMPARE_TOOLS, getComparePath } from '../../lib/compare';
+import {
+  ToolFilters,
+  EMPTY_TOOL_FILTERS,
+  matchesToolFilters,
+  toolFiltersFromParams,
+  toolFiltersToParams
+} from '../../lib/filters';
 
 interface FormattedTextProps {
   children?: string;
@@ -23,55 +38,20 @@ interface FormattedTextProps {
   currentToolId?: string;
 }
 
-const GUIDE_SECTIONS = [
-  'Written Guide - Intro',
-  'Written Guide - Target Audience',
-  'Written Guide - Issues',
-  'Written Guide - Setup',
-  'Written Guide - Walkthrough'
+const GUIDE_SECTIONS: { key: keyof ToolGuide; title: (name: string) => string }[] = [
+  { key: 'intro', title: name => `${name} Overview` },
+  { key: 'targetAudience', title: () => 'Who this tool is for' },
+  { key: 'issues', title: () => 'Common issues and questions' },
+  { key: 'setup', title: () => 'Setup' },
+  { key: 'walkthrough', title: () => 'Walkthrough' }
 ];
 
-const PRICING_EXPLANATIONS = {
-  'Free': 'Completely free to use',
-  'Cosmetics': 'Features are free, but small tweaks and customization is paid (colors, cloud syncing, ad removal)',
-  'Freemium': 'There is a free tier which has features, but you must pay to access additional features',
-  'Paid': 'Access to the tool is paid, either one time or with a subscription. Many paid tools have free trials'
-};
-
-const TECH_LEVEL_EXPLANATIONS = {
-  '1': 'No experience required. There is minimal set up, and it\'s very user-friendly (simple apps or web pages).',
-  '2': 'Purpose built tool with learning curve. Using the tool is generally simple, but might require learning or some customization.',
-  '3': 'User friendly, but requires setup and learning. Still approachable for most people, but will require effort to learn and set up.',
-  '4': 'Slightly technical. Using the tool might require tinkering, special knowledge or a non-standard setup.',
-  '5': 'Very technical. Using and installing the tool might require technical experience and troubleshooting.'
-};
-
 const getEmbedUrl = (url: string): string | null => {
   if (!url) return null;
   const match = url.match(/(?:youtu\.be\/|watch\?v=)([\w-]+)/);
   return match ? `https://www.youtube.com/embed/${match[1]}` : null;
 };
 
-// Helper function to parse markdown links
-const parseMarkdownLink = (text: string): { displayText: string; url: string } => {
-  // Check for markdown link format: [Display Text](https://example.com)
-  const markdownLinkRegex = /^\[([^\]]+)\]\(([^)]+)\)$/;
-  const match = text.match(markdownLinkRegex);
-  
-  if (match) {
-    return {
-      displayText: match[1],
-      url: match[2]
-    };
-  }
-  
-  // If no markdown format found, treat as regular URL
-  return {
-    displayText: text,
-    url: text
-  };
-};
-
 const Video = ({ title, src }: { title: string; src: string }) => (
   <div>
     <h3 className="font-semibold mb-2">{title}</h3>
@@ -210,7 +190,7 @@ const FormattedText = ({ children, tools = [], currentToolId }: FormattedTextPro
   
   if (tools.length > 0) {
     tools.forEach(tool => {
-      const displayName = tool['Display Name'] || tool['code name'];
+      const displayName = tool.displayName;
       if (displayName && tool.id !== currentToolId && displayName.toLowerCase() !== 'other') {
         toolMap.set(displayName.toLowerCase(), tool);
         sortedToolNames.push(displayName);
@@ -371,7 +351,7 @@ const FormattedInlineText = ({ children, tools = [], currentToolId }: FormattedT
   
   if (tools.length > 0) {
     tools.forEach(tool => {
-      const displayName = tool['Display Name'] || tool['code name'];
+      const displayName = tool.displayName;
       if (displayName && tool.id !== currentToolId && displayName.toLowerCase() !== 'other') {
         toolMap.set(displayName.toLowerCase(), tool);
         sortedToolNames.push(displayName);
@@ -548,11 +528,19 @@ interface CardProps {
   isOpen: boolean;
   onToggle: (toolId: string) => void;
   cardRef?: (el: HTMLDivElement | null) => void;
+  // Where the current search matched; empty when there is no query
+  matches: FieldMatch[];
   tools: Tool[];
+  isCompared: boolean;
+  // False once the comparison is full, so only ticked tools can change
+  canCompare: boolean;
+  onToggleCompare: (toolId: string) => void;
 }
 
-const Card = ({ tool, isOpen, onToggle, cardRef, tools }: CardProps) => {
-  const { isStarred, toggleStar } = useStarredActivities();
+const Card = ({ tool, isOpen, onToggle, cardRef, matches, tools, isCompared, canCompare, onToggleCompare }: CardProps) => {
+  const { isStarred, toggleStar } = useFavorites();
+  const { relationships } = useLibrary();
+  const deepestMatch = getDeepestMatch(matches);
 
   const handleCardClick = (e: React.MouseEvent) => {
     // Don't toggle if clicking on the external link icon, feedback button, or star button
@@ -579,11 +567,11 @@ const Card = ({ tool, isOpen, onToggle, cardRef, tools }: CardProps) => {
     e.stopPropagation();
     
     // If this card is currently open and we're starring it, we'll need to follow it
-    const wasStarred = isStarred(tool.id);
+    const wasStarred = isStarred('tools', tool.id);
     const willBeStarred = !wasStarred;
     
     // Toggle the star
-    toggleStar(tool.id);
+    toggleStar('tools', tool.id);
     
     // If card is open and moving to starred section, we'll scroll to it after re-render
     if (isOpen && willBeStarred) {
@@ -600,8 +588,8 @@ const Card = ({ tool, isOpen, onToggle, cardRef, tools }: CardProps) => {
     }
   };
   
-  const whyUrl = getEmbedUrl(tool['Video What and why']);
-  const demoUrl = getEmbedUrl(tool['Video Demo']);
+  const whyUrl = getEmbedUrl(tool.videoWhatAndWhy);
+  const demoUrl = getEmbedUrl(tool.videoDemo);
 
   return (
     <div 
@@ -618,15 +606,15 @@ const Card = ({ tool, isOpen, onToggle, cardRef, tools }: CardProps) => {
           onClick={handleStarClick}
           className="p-1.5 rounded-lg transition-all duration-200 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-yellow-300"
           style={{ 
-            color: isStarred(tool.id) ? '#F59E0B' : '#9CA3AF'
+            color: isStarred('tools', tool.id) ? '#F59E0B' : '#9CA3AF'
           }}
-          title={isStarred(tool.id) ? 'Remove from starred' : 'Add to starred'}
+          title={isStarred('tools', tool.id) ? 'Remove from starred' : 'Add to starred'}
         >
           <svg 
             width="16" 
             height="16" 
             viewBox="0 0 24 24" 
-            fill={isStarred(tool.id) ? 'currentColor' : 'none'}
+            fill={isStarred('tools', tool.id) ? 'currentColor' : 'none'}
             stroke="currentColor" 
             strokeWidth="2" 
             strokeLinecap="round" 
@@ -635,6 +623,7 @@ const Card = ({ tool, isOpen, onToggle, cardRef, tools }: CardProps) => {
             <polygon points="12,2 15.09,8.26 22,9.27 17,14.14 18.18,21.02 12,17.77 5.82,21.02 7,14.14 2,9.27 8.91,8.26"></polygon>
           </svg>
         </button>
+        <CollectionMenu library="tools" itemId={tool.id} />
         <button
           onClick={handleExternalLinkClick}
           className="external-link-icon p-2 rounded-lg transition-colors duration-200 hover:bg-gray-100 focus:outline-none focus:ring-2"
@@ -660,50 +649,71 @@ const Card = ({ tool, isOpen, onToggle, cardRef, tools }: CardProps) => {
         </button>
       </div>
 
+      {/* Compare checkbox */}
+      <div className="absolute bottom-3 left-4 sm:left-6 z-10">
+        <label
+          className="flex items-center gap-1 text-xs font-medium cursor-pointer"
+          style={{ color: isCompared ? '#F97316' : '#9CA3AF' }}
+          title={canCompare || isCompared ? 'Add to comparison' : `You can compare up to ${MAX_COMPARE_TOOLS} tools`}
+          onClick={e => e.stopPropagation()}
+        >
+          <input
+            type="checkbox"
+            checked={isCompared}
+            disabled={!canCompare && !isCompared}
+            onChange={() => onToggleCompare(tool.id)}
+            className="rounded"
+            style={{ accentColor: '#F97316' }}
+          />
+          Compare
+        </label>
+      </div>
+
       {/* Tool feedback button */}
       <div className="absolute bottom-3 right-3 z-10">
         <FeedbackButton 
           type="activity" 
           activityId={tool.id} 
-          activityName={tool['Display Name'] || tool['code name']}
+          activityName={tool.displayName}
         />
       </div>
 
       <header className="p-4 sm:p-6 border-b space-y-2" style={{ borderColor: '#D1D5DB' }}>
         <h2 className="text-xl sm:text-2xl font-extrabold break-words pr-8" style={{ color: '#230E77' }}>
-          {tool['Display Name'] || tool['code name']}
+          <HighlightedText text={tool.displayName} ranges={getFieldMatch(matches, 'displayName')?.ranges} />
         </h2>
         <pre className="text-sm whitespace-pre-wrap break-words text-gray-700">
-          {tool['Short Description']}
+          <HighlightedText text={tool.shortDescription} ranges={getFieldMatch(matches, 'shortDescription')?.ranges} />
         </pre>
+        {deepestMatch && <MatchSnippet match={deepestMatch} />}
         <p className="text-xs font-roboto text-gray-400">
-          ID: {tool['id']} &middot; Code: {tool['code name']}
+          ID: {tool.id} &middot; Code: {tool.codeName}
         </p>
       </header>
 
       <div className="p-4 sm:p-6 space-y-4 pb-12">
         <div className="flex flex-wrap gap-2">
-          {tool['Type'] && (
+          {tool.platforms.length > 0 && (
             <span className="px-2 py-1 rounded-full text-xs font-medium font-roboto" style={{ backgroundColor: '#F97316', color: '#FFFFFE' }}>
-              {tool['Type']}
+              {tool.platforms.join(', ')}
             </span>
           )}
-          {tool['Pillar'] && (
+          {tool.pricing && (
             <TooltipBadge
-              tooltip={PRICING_EXPLANATIONS[tool['Pillar'] as keyof typeof PRICING_EXPLANATIONS] || tool['Pillar']}
+              tooltip={PRICING_EXPLANATIONS[tool.pricing] || tool.pricing}
               backgroundColor="#FDBA74"
               textColor="#230E77"
             >
-              {tool['Pillar']}
+              {tool.pricing}
             </TooltipBadge>
           )}
-          {tool['Refold Phase(s)'] && (
+          {tool.techLevel !== null && (
             <TooltipBadge
-              tooltip={TECH_LEVEL_EXPLANATIONS[tool['Refold Phase(s)'] as keyof typeof TECH_LEVEL_EXPLANATIONS] || `Tech Level: ${tool['Refold Phase(s)']}`}
+              tooltip={TECH_LEVEL_EXPLANATIONS[tool.techLevel] || `Tech Level: ${tool.techLevel}`}
               backgroundColor="#FED7AA"
               textColor="#230E77"
             >
-              Tech Level: {tool['Refold Phase(s)']}
+              Tech Level: {tool.techLevel}
             </TooltipBadge>
           )}
         </div>
@@ -711,21 +721,16 @@ const Card = ({ tool, isOpen, onToggle, cardRef, tools }: CardProps) => {
         {/* Languages on separate line */}
         <div className="text-sm text-gray-600">
           <strong>Languages:</strong> {
-            !tool['Parent Skills'] || tool['Parent Skills'] === 'All' 
+            tool.languages.length === 0
               ? 'All Languages' 
-              : tool['Parent Skills']
+              : tool.languages.join(', ')
           }
         </div>
 
         <div className="grid grid-cols-1 gap-4 text-sm text-gray-600">
-          {tool['parent skills cat'] && (
+          {tool.alternatives.length > 0 && (
             <div className="break-words">
-              <strong>Skills:</strong> {tool['parent skills cat']}
-            </div>
-          )}
-          {tool['Alternatives'] && (
-            <div className="break-words">
-              <strong>Alternatives:</strong> <FormattedInlineText tools={tools} currentToolId={tool.id}>{tool['Alternatives']}</FormattedInlineText>
+              <strong>Alternatives:</strong> <FormattedInlineText tools={tools} currentToolId={tool.id}>{tool.alternatives.join(', ')}</FormattedInlineText>
             </div>
           )}
         </div>
@@ -735,7 +740,7 @@ const Card = ({ tool, isOpen, onToggle, cardRef, tools }: CardProps) => {
         <div className="p-4 sm:p-6 bg-gray-50 space-y-6">
           {/* Tool URL section */}
           {(() => {
-            const toolLinkData = tool['Tools'] ? parseMarkdownLink(tool['Tools']) : null;
+            const toolLinkData = tool.downloadLink;
             return toolLinkData ? (
               <div className="break-words text-sm text-gray-600">
                 <strong>Get the tool:</strong> 
@@ -751,37 +756,36 @@ const Card = ({ tool, isOpen, onToggle, cardRef, tools }: CardProps) => {
               </div>
             ) : null;
           })()}
+          <UsedForSection activities={relationships.activitiesByTool.get(tool.id) || []} />
           
-          <FormattedText tools={tools} currentToolId={tool.id}>{tool['Long Description']}</FormattedText>
+          <FormattedText tools={tools} currentToolId={tool.id}>{tool.longDescription}</FormattedText>
           {(whyUrl || demoUrl) && (
             <div className="space-y-6">
               {whyUrl && <Video title="What & Why" src={whyUrl} />}
               <DemoSection demoUrl={demoUrl || undefined} />
             </div>
           )}
-          {tool['Benefits'] && (
+          {tool.benefits.length > 0 && (
             <div>
               <strong style={{ color: '#230E77' }}>Benefits:</strong>
               <ul className="list-disc list-inside mt-1 text-gray-700">
-                {tool['Benefits'].split(/;+/).map((b, i) => (
-                  <li key={i}>{b.trim()}</li>
+                {tool.benefits.map((b, i) => (
+                  <li key={i}>{b}</li>
                 ))}
               </ul>
               <hr className="mt-6 border-gray-300" />
             </div>
           )}
-          {GUIDE_SECTIONS.map(sec => tool[sec] && (
-            <div key={sec}>
+          {GUIDE_SECTIONS.map(sec => tool.guide[sec.key] && (
+            <div key={sec.key}>
               <h4 className="font-extrabold" style={{ color: '#230E77' }}>
-                {sec.replace('Written Guide - ','')
-                   .replace('Target Audience', 'Who this tool is for')
-                   .replace('Intro', `${tool['Display Name'] || tool['code name']} Overview`)
-                   .replace('Issues', 'Common issues and questions')}
+                {sec.title(tool.displayName)}
               </h4>
-              <FormattedText tools={tools} currentToolId={tool.id}>{tool[sec]}</FormattedText>
+              <FormattedText tools={tools} currentToolId={tool.id}>{tool.guide[sec.key]}</FormattedText>
             </div>
           ))}
-          <TipsSection content={tool['Written Guide - Tips and Tricks']} tools={tools} currentToolId={tool.id} />
+          <TipsSection content={tool.guide.tipsAndTricks} tools={tools} currentToolId={tool.id} />
+          <NotesPanel library="tools" itemId={tool.id} accentColor="#F97316" />
         </div>
       )}
     </div>
@@ -789,20 +793,45 @@ const Card = ({ tool, isOpen, onToggle, cardRef, tools }: CardProps) => {
 };
 
 export default function ToolsPage() {
-  const [tools, setTools] = useState<Tool[]>([]);
-  const [activities, setActivities] = useState<Activity[]>([]);
+  const { activities, tools, relationships, isLoaded } = useLibrary();
   const [query, setQuery] = useState('');
-  const [loading, setLoading] = useState(true);
   const [showScrollTop, setShowScrollTop] = useState(false);
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
-  const [filters, setFilters] = useState({
-    platform: [] as string[],
-    pricing: '',
-    technicalRating: '',
-    languages: [] as string[]
-  });
+  const [filters, setFilters] = useState<ToolFilters>(EMPTY_TOOL_FILTERS);
+  const [collectionId, setCollectionId] = useState('');
+  const [onlyWithNotes, setOnlyWithNotes] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const { starredIds: allStarredIds, collections, isLoaded: starredLoaded } = useFavorites();
+  const starredIds = allStarredIds.tools;
+  const { notes, hasNote } = useNotes();
+  // Notes ride along on the items so search matches them too
+  const toolsWithNotes = useMemo(() => attachNotes(tools, notes.tools), [tools, notes.tools]);
+  const searchResults = useSearch(toolsWithNotes, query);
+  const [sortMode, setSortMode] = useStoredState<ToolSortMode>('refold-sort-tools', 'relevance', isToolSortMode);
+  const recommendationCounts = useMemo(() => countToolRecommendations(relationships.activitiesByTool), [relationships]);
+
+  // Presets save the search and filters; the URL also mirrors the open cards so views can be shared
+  const presetParams = new URLSearchParams();
+  if (query) presetParams.set('q', query);
+  toolFiltersToParams(filters, presetParams);
+  if (collectionId) presetParams.set('collection', collectionId);
+  if (onlyWithNotes) presetParams.set('notes', '1');
+
+  const urlParams = new URLSearchParams(presetParams);
+  expandedCards.forEach(id => urlParams.append('open', id));
+
+  const applyPreset = (params: URLSearchParams) => {
+    setQuery(params.get('q') || '');
+    setFilters(toolFiltersFromParams(params));
+    setCollectionId(params.get('collection') || '');
+    setOnlyWithNotes(params.get('notes') === '1');
+  };
 
-  const { starredIds, isLoaded: starredLoaded } = useStarredActivities();
+  useUrlState(urlParams, params => {
+    applyPreset(params);
+    setExpandedCards(new Set(params.getAll('open')));
+  }, ['q']);
 
   // Handle scroll to show/hide scroll to top button
   useEffect(() => {
@@ -821,6 +850,10 @@ export default function ToolsPage() {
     });
   };
 
+  const toggleCompare = (toolId: string) => {
+    setCompareIds(prev => (prev.includes(toolId) ? prev.filter(id => id !== toolId) : [...prev, toolId]));
+  };
+
   const toggleCard = (toolId: string) => {
     setExpandedCards(prev => {
       const newSet = new Set(prev);
@@ -833,62 +866,12 @@ export default function ToolsPage() {
     });
   };
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const response = await fetch('/data/export_activity_library.tsv');
-        const text = await response.text();
-        
-        Papa.parse(text, {
-          header: true,
-          delimiter: '\t',
-          skipEmptyLines: false,
-          complete: (res) => {
-            const cleaned = (res.data as Record<string, unknown>[]).map((r) => {
-              const o: Tool | Activity = {};
-              Object.entries(r).forEach(([k, v]) => {
-                o[k] = typeof v === 'string' ? v.replace(/\r/g, '').replace(/⏎/g, '\n').trim() : v as string;
-              });
-              return o;
-            });
-            
-            // Separate activities and tools
-            const activitiesOnly = cleaned.filter(item => item.Library === 'Activities') as Activity[];
-            const toolsOnly = cleaned.filter(item => item.Library === 'Tools') as Tool[];
-            
-            // Sort by ID (convert to number for proper sorting)
-            const sortedActivities = activitiesOnly.sort((a, b) => {
-              const idA = parseInt(a.id) || 0;
-              const idB = parseInt(b.id) || 0;
-              return idA - idB;
-            });
-
-            const sortedTools = toolsOnly.sort((a, b) => {
-              const idA = parseInt(a.id) || 0;
-              const idB = parseInt(b.id) || 0;
-              return idA - idB;
-            });
-            
-            setActivities(sortedActivities);
-            setTools(sortedTools);
-            setLoading(false);
-          }
-        });
-      } catch (error) {
-        console.error('Error loading data:', error);
-        setLoading(false);
-      }
-    };
-    
-    loadData();
-  }, []);
-
-  const getUniqueOptions = (field: string): string[] => {
+  const getUniqueOptions = (getValue: (tool: Tool) => string | undefined): string[] => {
     const values = new Set<string>();
     tools.forEach(tool => {
-      const value = tool[field];
-      if (value && value.trim()) {
-        values.add(value.trim());
+      const value = getValue(tool);
+      if (value) {
+        values.add(value);
       }
     });
     return Array.from(values).sort();
@@ -897,14 +880,7 @@ export default function ToolsPage() {
   const getUniquePlatforms = (): string[] => {
     const values = new Set<string>();
     tools.forEach(tool => {
-      const value = tool['Type'];
-      if (value && value.trim()) {
-        // Split platforms by comma or semicolon and trim
-        value.split(/[,;]+/).forEach(platform => {
-          const trimmed = platform.trim();
-          if (trimmed) values.add(trimmed);
-        });
-      }
+      tool.platforms.forEach(platform => values.add(platform));
     });
     return Array.from(values).sort();
   };
@@ -912,21 +888,14 @@ export default function ToolsPage() {
   const getUniqueLanguages = (): string[] => {
     const values = new Set<string>();
     tools.forEach(tool => {
-      const value = tool['Parent Skills'];
-      // Only include tools with specific languages (not empty or "All")
-      if (value && value.trim() && value !== 'All') {
-        // Split languages by comma or semicolon and trim
-        value.split(/[,;]+/).forEach(language => {
-          const trimmed = language.trim();
-          if (trimmed) values.add(trimmed);
-        });
-      }
+      // Language-agnostic tools have no languages listed
+      tool.languages.forEach(language => values.add(language));
     });
     return Array.from(values).sort();
   };
 
   const clearFilters = () => {
-    setFilters({ platform: [], pricing: '', technicalRating: '', languages: [] });
+    setFilters(EMPTY_TOOL_FILTERS);
   };
 
   const togglePlatformFilter = (platform: string) => {
@@ -947,31 +916,20 @@ export default function ToolsPage() {
     }));
   };
 
-  // Apply search scoring first, then other filters
-  const searchResults = searchWithScoring(tools, query);
-  
-  const filtered = searchResults.filter(tool => {
-    const matchesPricing = !filters.pricing || tool['Pillar'] === filters.pricing;
-    
-    // Technical rating: include all tools with rating <= selected level
-    const matchesTechnicalRating = !filters.technicalRating || 
-      (tool['Refold Phase(s)'] && parseInt(tool['Refold Phase(s)']) <= parseInt(filters.technicalRating));
-    
-    const matchesPlatform = filters.platform.length === 0 || 
-      filters.platform.some(platform => 
-        tool['Type'] && tool['Type'].split(/[,;]+/).some(p => p.trim() === platform)
-      );
-    
-    // Language filtering: include language-agnostic tools (marked as "All" or empty) when any language is selected
-    const matchesLanguages = filters.languages.length === 0 ||
-      !tool['Parent Skills'] || // Include tools with empty language field
-      tool['Parent Skills'] === 'All' || // Include explicitly language-agnostic tools
-      (tool['Parent Skills'] && filters.languages.some(language =>
-        tool['Parent Skills'].split(/[,;]+/).some(l => l.trim() === language)
-      ));
-    
-    return matchesPricing && matchesTechnicalRating && matchesPlatform && matchesLanguages;
-  });
+  // Filters apply on top of the ranked search results
+  const matchesById = new Map(searchResults.map(result => [result.item.id, result.matches]));
+
+  const activeCollection = collections.find(collection => collection.id === collectionId);
+
+  const filtered = sortTools(
+    searchResults
+      .map(result => result.item)
+      .filter(tool => !activeCollection || activeCollection.items.tools.includes(tool.id))
+      .filter(tool => !onlyWithNotes || hasNote('tools', tool.id))
+      .filter(tool => matchesToolFilters(tool, filters)),
+    sortMode,
+    recommendationCounts
+  );
 
   // Split into starred and non-starred tools
   const starredTools = filtered.filter(tool => starredIds.includes(tool.id));
@@ -1037,8 +995,15 @@ export default function ToolsPage() {
           </div>
           
           <p className="mt-2 text-sm sm:text-base font-roboto text-gray-600">
-            {loading ? 'Loading tool data...' : `Loaded ${tools.length} tools`}
-            {starredLoaded && starredIds.length > 0 && ` • ${starredIds.length} starred`}
+            {!isLoaded ? 'Loading tool data...' : `Loaded ${tools.length} tools`}
+            {starredLoaded && starredIds.length > 0 && (
+              <>
+                {' • '}
+                <Link href="/starred" className="hover:underline">{starredIds.length} starred</Link>
+              </>
+            )}
+            {' • '}
+            <Link href="/matrix" className="hover:underline" style={{ color: '#F97316' }}>Activity–tool matrix</Link>
           </p>
         </header>
 
@@ -1050,7 +1015,7 @@ export default function ToolsPage() {
             type="text" 
             value={query} 
             onChange={e => setQuery(e.target.value)} 
-            placeholder="Search tools..." 
+            placeholder="Search tools... (try pricing:free tech:<=2 platform:mobile)" 
             className="w-full px-4 py-3 border-2 rounded-lg bg-white shadow-sm text-base focus:ring-2 focus:ring-opacity-50 text-gray-800"
             style={{ 
               borderColor: '#D1D5DB'
@@ -1097,7 +1062,7 @@ export default function ToolsPage() {
                   }}
                 >
                   <option value="">All Pricing</option>
-                  {getUniqueOptions('Pillar').map(option => (
+                  {getUniqueOptions(tool => tool.pricing).map(option => (
                     <option key={option} value={option}>{option}</option>
                   ))}
                 </select>
@@ -1117,7 +1082,7 @@ export default function ToolsPage() {
                   }}
                 >
                   <option value="">All Ratings</option>
-                  {getUniqueOptions('Refold Phase(s)').map(option => (
+                  {getUniqueOptions(tool => tool.techLevel?.toString()).map(option => (
                     <option key={option} value={option}>{option}</option>
                   ))}
                 </select>
@@ -1163,10 +1128,47 @@ export default function ToolsPage() {
               </div>
             </div>
             
-            <div className="mt-3 text-sm font-roboto text-gray-600">
-              Showing {filtered.length} of {tools.length} tools
-              {starredTools.length > 0 && ` (${starredTools.length} starred)`}
+            <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm font-roboto text-gray-600">
+                Showing {filtered.length} of {tools.length} tools
+                {starredTools.length > 0 && ` (${starredTools.length} starred)`}
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <CollectionFilter value={collectionId} onChange={setCollectionId} />
+                <label className="flex items-center gap-2 text-sm font-roboto text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={onlyWithNotes}
+                    onChange={e => setOnlyWithNotes(e.target.checked)}
+                    className="rounded"
+                    style={{ accentColor: '#F97316' }}
+                  />
+                  Has notes
+                </label>
+                <label className="flex items-center gap-2 text-sm font-roboto text-gray-600">
+                  Sort by
+                  <select
+                    value={sortMode}
+                    onChange={e => setSortMode(e.target.value as ToolSortMode)}
+                    className="px-2 py-1 border rounded bg-white shadow-sm text-sm focus:ring-2 text-gray-800"
+                    style={{ borderColor: '#D1D5DB' }}
+                  >
+                    {TOOL_SORT_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.value === 'relevance' && !query.trim() ? 'Default order' : option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
             </div>
+
+            <FilterPresets
+              library="tools"
+              currentParams={presetParams.toString()}
+              onApply={applyPreset}
+              accentColor="#F97316"
+            />
           </div>
         )}
 
@@ -1195,7 +1197,11 @@ export default function ToolsPage() {
                     tool={tool} 
                     isOpen={expandedCards.has(tool.id)}
                     onToggle={toggleCard}
+                    matches={matchesById.get(tool.id) || []}
                     tools={tools}
+                    isCompared={compareIds.includes(tool.id)}
+                    canCompare={compareIds.length < MAX_COMPARE_TOOLS}
+                    onToggleCompare={toggleCompare}
                   />
                 ))}
               </div>
@@ -1223,7 +1229,11 @@ export default function ToolsPage() {
                     tool={tool} 
                     isOpen={expandedCards.has(tool.id)}
                     onToggle={toggleCard}
+                    matches={matchesById.get(tool.id) || []}
                     tools={tools}
+                    isCompared={compareIds.includes(tool.id)}
+                    canCompare={compareIds.length < MAX_COMPARE_TOOLS}
+                    onToggleCompare={toggleCompare}
                   />
                 ))}
               </div>
@@ -1232,6 +1242,29 @@ export default function ToolsPage() {
         </div>
       </div>
 
+      {/* Compare bar */}
+      {compareIds.length > 0 && (
+        <div
+          className="fixed bottom-6 left-1/2 transform -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-3 bg-white rounded-full shadow-xl border"
+          style={{ borderColor: '#F97316' }}
+        >
+          <span className="text-sm text-gray-700">
+            {compareIds.length} of {MAX_COMPARE_TOOLS} selected
+          </span>
+          <Link
+            href={getComparePath(compareIds)}
+            className={`px-3 py-1 rounded-full text-sm font-medium ${compareIds.length < 2 ? 'pointer-events-none opacity-50' : ''}`}
+            style={{ backgroundColor: '#F97316', color: '#FFFFFE' }}
+            aria-disabled={compareIds.length < 2}
+          >
+            Compare
+          </Link>
+          <button onClick={() => setCompareIds([])} className="text-sm text-gray-500 hover:underline">
+            Clear
+          </button>
+        </div>
+      )}
+
       {/* Scroll to Top Button */}
       {showScrollTop && (
         <button
@@ -1,32 +1,30 @@
 import { useState } from 'react';
-
-interface Activity {
-  [key: string]: string;
-}
+import { useMyPhase } from '../contexts/PhaseContext';
+import { fitsPhase } from '../lib/phase';
+import type { LibraryItem } from '../lib/library';
 
 interface ActivityLinkProps {
-  activity: Activity;
+  activity: LibraryItem;
   children: React.ReactNode;
+  // 'start' keeps the tooltip from overflowing links near a left edge
+  tooltipAlign?: 'center' | 'start';
 }
 
-const ActivityLink = ({ activity, children }: ActivityLinkProps) => {
+const ActivityLink = ({ activity, children, tooltipAlign = 'center' }: ActivityLinkProps) => {
   const [showTooltip, setShowTooltip] = useState(false);
+  const { myPhase } = useMyPhase();
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     
     // Determine if this is a tool or activity based on Library field
-    const isTool = activity.Library === 'Tools';
+    const isTool = activity.library === 'Tools';
     const url = isTool ? `/tool/${activity.id}` : `/activity/${activity.id}`;
     
     window.open(url, '_blank');
   };
 
-  const phases = activity['Refold Phase(s)'] 
-    ? activity['Refold Phase(s)'].split(/;+/).map(p => p.trim()).filter(Boolean)
-    : [];
-
-  const isTool = activity.Library === 'Tools';
+  const isTool = activity.library === 'Tools';
 
   return (
     <span className="relative inline-block">
@@ -42,12 +40,12 @@ const ActivityLink = ({ activity, children }: ActivityLinkProps) => {
       
       {showTooltip && (
         <div 
-          className="absolute z-50 p-3 bg-white border rounded-lg shadow-xl w-80 -top-2 left-1/2 transform -translate-x-1/2 -translate-y-full"
+          className={`absolute z-50 p-3 bg-white border rounded-lg shadow-xl w-80 -top-2 transform -translate-y-full ${tooltipAlign === 'start' ? 'left-0' : 'left-1/2 -translate-x-1/2'}`}
           style={{ borderColor: '#D1D5DB' }}
         >
           {/* Tooltip arrow */}
           <div 
-            className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0"
+            className={`absolute top-full w-0 h-0 ${tooltipAlign === 'start' ? 'left-4' : 'left-1/2 transform -translate-x-1/2'}`}
             style={{
               borderLeft: '6px solid transparent',
               borderRight: '6px solid transparent',
@@ -57,51 +55,48 @@ const ActivityLink = ({ activity, children }: ActivityLinkProps) => {
           
           <div className="space-y-2">
             <h4 className="font-bold text-sm" style={{ color: '#230E77' }}>
-              {activity['Display Name'] || activity['code name']}
+              {activity.displayName}
             </h4>
             
             <p className="text-xs text-gray-700 leading-relaxed">
-              {activity['Short Description']}
+              {activity.shortDescription}
             </p>
             
             <div className="flex flex-wrap gap-1">
-              {activity['Type'] && (
-                <span 
-                  className="px-2 py-0.5 rounded-full text-xs font-medium" 
-                  style={{ 
-                    backgroundColor: isTool ? '#F97316' : '#F3CE5B', 
-                    color: isTool ? '#FFFFFE' : '#230E77' 
-                  }}
-                >
-                  {activity['Type']}
-                </span>
-              )}
-              {isTool ? (
+              {activity.library === 'Tools' ? (
                 <>
-                  {activity['Pillar'] && (
-                    <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#FDBA74', color: '#230E77' }}>
-                      {activity['Pillar']}
+                  {activity.platforms.length > 0 && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#F97316', color: '#FFFFFE' }}>
+                      {activity.platforms.join(', ')}
                     </span>
                   )}
-                  {activity['Refold Phase(s)'] && (
-                    <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#FED7AA', color: '#230E77' }}>
-                      Tech Level: {activity['Refold Phase(s)']}
+                  {activity.pricing && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#FDBA74', color: '#230E77' }}>
+                      {activity.pricing}
                     </span>
                   )}
-                  {activity['Parent Skills'] && (
-                    <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#FB923C', color: '#FFFFFE' }}>
-                      {activity['Parent Skills'] === 'All' ? 'All Languages' : activity['Parent Skills']}
+                  {activity.techLevel !== null && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#FED7AA', color: '#230E77' }}>
+                      Tech Level: {activity.techLevel}
                     </span>
                   )}
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#FB923C', color: '#FFFFFE' }}>
+                    {activity.languages.length === 0 ? 'All Languages' : activity.languages.join(', ')}
+                  </span>
                 </>
               ) : (
                 <>
-                  {activity['Pillar'] && (
+                  {activity.type && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#F3CE5B', color: '#230E77' }}>
+                      {activity.type}
+                    </span>
+                  )}
+                  {activity.pillar && (
                     <span className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#6544E9', color: '#FFFFFE' }}>
-                      {activity['Pillar']}
+                      {activity.pillar}
                     </span>
                   )}
-                  {phases.map((p, i) => (
+                  {activity.phases.map((p, i) => (
                     <span key={i} className="px-2 py-0.5 rounded-full text-xs font-medium" style={{ backgroundColor: '#BFB2F6', color: '#230E77' }}>
                       Phase {p}
                     </span>
@@ -109,6 +104,14 @@ const ActivityLink = ({ activity, children }: ActivityLinkProps) => {
                 </>
               )}
             </div>
+
+            {myPhase && activity.library === 'Activities' && (
+              <p className="text-xs font-medium" style={{ color: fitsPhase(activity, myPhase) ? '#047857' : '#6B7280' }}>
+                {fitsPhase(activity, myPhase)
+                  ? `✓ Fits your phase (Phase ${myPhase})`
+                  : `Not listed for your phase (Phase ${myPhase})`}
+              </p>
+            )}
             
             <p className="text-xs text-gray-500 italic">
               Click to see {isTool ? 'tool' : 'activity'} details
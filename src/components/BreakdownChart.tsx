@@ -0,0 +1,31 @@
+import { BreakdownEntry, formatMinutes } from '../lib/routine';
+
+interface BreakdownChartProps {
+  title: string;
+  entries: BreakdownEntry[];
+  getColor: (label: string) => string;
+}
+
+const BreakdownChart = ({ title, entries, getColor }: BreakdownChartProps) => (
+  <div>
+    <h3 className="font-semibold mb-2" style={{ color: '#230E77' }}>{title}</h3>
+    <div className="space-y-2">
+      {entries.map(entry => (
+        <div key={entry.label}>
+          <div className="flex justify-between text-sm text-gray-700">
+            <span>{entry.label}</span>
+            <span>{formatMinutes(entry.minutes)} · {Math.round(entry.share * 100)}%</span>
+          </div>
+          <div className="h-2 rounded bg-gray-200 overflow-hidden">
+            <div
+              className="h-2 rounded"
+              style={{ width: `${entry.share * 100}%`, backgroundColor: getColor(entry.label) }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default BreakdownChart;
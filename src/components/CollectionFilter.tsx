@@ -0,0 +1,63 @@
+'use client';
+
+import { useFavorites } from '../contexts/FavoritesContext';
+
+interface CollectionFilterProps {
+  // Selected collection id, or '' for no collection filter
+  value: string;
+  onChange: (collectionId: string) => void;
+}
+
+const CollectionFilter = ({ value, onChange }: CollectionFilterProps) => {
+  const { collections, renameCollection, deleteCollection } = useFavorites();
+  const selected = collections.find(collection => collection.id === value);
+
+  if (collections.length === 0) return null;
+
+  const handleRename = () => {
+    if (!selected) return;
+    const name = window.prompt('Rename collection', selected.name)?.trim();
+    if (name) renameCollection(selected.id, name);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    if (window.confirm(`Delete the collection "${selected.name}"? Its items stay in the library.`)) {
+      deleteCollection(selected.id);
+      onChange('');
+    }
+  };
+
+  const smallButtonClass = 'px-2 py-1 text-xs border rounded bg-white hover:shadow-sm focus:outline-none focus:ring-2 text-gray-600';
+
+  return (
+    <div className="flex items-center gap-2 text-sm font-roboto text-gray-600">
+      <label className="flex items-center gap-2">
+        Collection
+        <select
+          value={selected ? value : ''}
+          onChange={e => onChange(e.target.value)}
+          className="px-2 py-1 border rounded bg-white shadow-sm text-sm focus:ring-2 text-gray-800"
+          style={{ borderColor: '#D1D5DB' }}
+        >
+          <option value="">All items</option>
+          {collections.map(collection => (
+            <option key={collection.id} value={collection.id}>{collection.name}</option>
+          ))}
+        </select>
+      </label>
+      {selected && (
+        <>
+          <button onClick={handleRename} className={smallButtonClass} style={{ borderColor: '#D1D5DB' }}>
+            Rename
+          </button>
+          <button onClick={handleDelete} className={smallButtonClass} style={{ borderColor: '#D1D5DB' }}>
+            Delete
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CollectionFilter;
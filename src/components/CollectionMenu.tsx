@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useFavorites } from '../contexts/FavoritesContext';
+import type { FavoriteLibrary } from '../lib/favorites';
+
+interface CollectionMenuProps {
+  library: FavoriteLibrary;
+  itemId: string;
+  size?: 'small' | 'medium';
+}
+
+const CollectionMenu = ({ library, itemId, size = 'small' }: CollectionMenuProps) => {
+  const { collections, isInCollection, toggleInCollection, createCollection } = useFavorites();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const memberCount = collections.filter(collection => isInCollection(collection.id, library, itemId)).length;
+
+  const addToNewCollection = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const collectionId = createCollection(name);
+    toggleInCollection(collectionId, library, itemId);
+    setNewName('');
+  };
+
+  const iconSize = size === 'small' ? '16' : '20';
+  const buttonSize = size === 'small' ? 'p-1.5' : 'p-2';
+
+  return (
+    <div ref={menuRef} className="relative" onClick={e => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`${buttonSize} rounded-lg transition-all duration-200 hover:bg-gray-100 focus:outline-none focus:ring-2 flex items-center gap-1`}
+        style={{ color: memberCount > 0 ? '#230E77' : '#9CA3AF' }}
+        title="Add to collection"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <svg
+          width={iconSize}
+          height={iconSize}
+          viewBox="0 0 24 24"
+          fill={memberCount > 0 ? 'currentColor' : 'none'}
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z"></path>
+        </svg>
+        {memberCount > 0 && <span className="text-xs font-medium">{memberCount}</span>}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-1 w-60 bg-white rounded-lg shadow-lg border z-20 p-3 text-left cursor-default"
+          style={{ borderColor: '#D1D5DB' }}
+        >
+          <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Collections</div>
+
+          {collections.length === 0 && (
+            <p className="text-sm text-gray-500 mb-2">No collections yet</p>
+          )}
+
+          <div className="space-y-1 max-h-48 overflow-y-auto mb-2">
+            {collections.map(collection => (
+              <label key={collection.id} className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isInCollection(collection.id, library, itemId)}
+                  onChange={() => toggleInCollection(collection.id, library, itemId)}
+                  className="mr-2 rounded"
+                  style={{ accentColor: '#230E77' }}
+                />
+                <span className="text-sm text-gray-700 truncate">{collection.name}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-1">
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') addToNewCollection();
+                if (e.key === 'Escape') setIsOpen(false);
+              }}
+              placeholder="New collection"
+              className="flex-1 min-w-0 px-2 py-1 text-sm border rounded text-gray-800"
+              style={{ borderColor: '#D1D5DB' }}
+            />
+            <button
+              onClick={addToNewCollection}
+              disabled={!newName.trim()}
+              className="px-2 py-1 text-xs border rounded bg-white disabled:opacity-50 focus:outline-none focus:ring-2"
+              style={{ color: '#230E77', borderColor: '#230E77' }}
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollectionMenu;
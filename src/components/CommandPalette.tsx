@@ -0,0 +1,249 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { useLibrary } from '../contexts/LibraryContext';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { useNotes } from '../contexts/NotesContext';
+import { getFavoriteLibrary } from '../lib/favorites';
+import { SearchOptions, searchWithScoring } from '../lib/search';
+import { getRecentItemIds, addRecentItem } from '../lib/recentItems';
+import { attachNotes } from '../lib/notes';
+import type { LibraryItem } from '../lib/library';
+
+const MAX_RESULTS_PER_GROUP = 6;
+
+// Both libraries are searched, so `tech:` shouldn't list every activity
+const SEARCH_OPTIONS: SearchOptions = { acrossLibraries: true };
+
+interface ResultGroup {
+  title: string;
+  items: LibraryItem[];
+}
+
+const getItemPath = (item: LibraryItem) =>
+  item.library === 'Tools' ? `/tool/${item.id}` : `/activity/${item.id}`;
+
+const CommandPalette = () => {
+  const router = useRouter();
+  const { activities, tools } = useLibrary();
+  const { isStarred, toggleStar } = useFavorites();
+  const { notes } = useNotes();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [recentIds, setRecentIds] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Cmd/Ctrl+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsOpen(prev => !prev);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setSelectedIndex(0);
+      setRecentIds(getRecentItemIds());
+      inputRef.current?.focus();
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen]);
+
+  const groups: ResultGroup[] = useMemo(() => {
+    if (!query.trim()) {
+      const allItems: LibraryItem[] = [...activities, ...tools];
+      const recentItems = recentIds
+        .map(id => allItems.find(item => item.id === id))
+        .filter((item): item is LibraryItem => item !== undefined);
+      return [{ title: 'Recent', items: recentItems }];
+    }
+
+    return [
+      { title: 'Activities', items: searchWithScoring(attachNotes(activities, notes.activities), query, SEARCH_OPTIONS).slice(0, MAX_RESULTS_PER_GROUP) },
+      { title: 'Tools', items: searchWithScoring(attachNotes(tools, notes.tools), query, SEARCH_OPTIONS).slice(0, MAX_RESULTS_PER_GROUP) }
+    ];
+  }, [query, activities, tools, notes, recentIds]);
+
+  const flatItems = groups.flatMap(group => group.items);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  // Keep the highlighted row visible while arrowing through a long list
+  useEffect(() => {
+    const row = listRef.current?.querySelector(`[data-index="${selectedIndex}"]`);
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const close = () => setIsOpen(false);
+
+  const openItem = (item: LibraryItem, newTab = false) => {
+    addRecentItem(item.id);
+    if (newTab) {
+      window.open(getItemPath(item), '_blank');
+    } else {
+      router.push(getItemPath(item));
+    }
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const selected = flatItems[selectedIndex];
+
+    switch (e.key) {
+      case 'Escape':
+        e.preventDefault();
+        close();
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        if (flatItems.length > 0) setSelectedIndex(prev => (prev + 1) % flatItems.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (flatItems.length > 0) setSelectedIndex(prev => (prev - 1 + flatItems.length) % flatItems.length);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (!selected) break;
+        if (e.shiftKey) {
+          toggleStar(getFavoriteLibrary(selected), selected.id);
+        } else {
+          openItem(selected, e.metaKey || e.ctrlKey);
+        }
+        break;
+    }
+  };
+
+  if (!isOpen) return null;
+
+  let rowIndex = 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 p-4 pt-16 md:pt-24 bg-black bg-opacity-50 backdrop-blur-sm"
+      onClick={e => e.target === e.currentTarget && close()}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Search activities and tools"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl mx-auto flex flex-col overflow-hidden"
+        onKeyDown={handleKeyDown}
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search activities and tools..."
+          className="w-full px-4 py-4 text-base border-b focus:outline-none text-gray-800"
+          style={{ borderColor: '#D1D5DB' }}
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={flatItems.length > 0 ? `command-palette-item-${selectedIndex}` : undefined}
+        />
+
+        <div ref={listRef} id="command-palette-results" className="overflow-y-auto" style={{ maxHeight: '60vh' }} role="listbox">
+          {flatItems.length === 0 && (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">
+              {query.trim() ? 'No activities or tools found' : 'Items you open will show up here'}
+            </p>
+          )}
+
+          {groups.map(group => group.items.length > 0 && (
+            <div key={group.title} className="py-2">
+              <h3 className="px-4 py-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                {group.title}
+              </h3>
+              {group.items.map(item => {
+                const index = rowIndex++;
+                const isSelected = index === selectedIndex;
+                const isTool = item.library === 'Tools';
+                const starred = isStarred(getFavoriteLibrary(item), item.id);
+
+                return (
+                  <div
+                    key={`${group.title}-${item.id}`}
+                    id={`command-palette-item-${index}`}
+                    data-index={index}
+                    role="option"
+                    aria-selected={isSelected}
+                    className="flex items-center gap-3 px-4 py-2 cursor-pointer"
+                    style={{ backgroundColor: isSelected ? '#F3F0FF' : 'transparent' }}
+                    onMouseMove={() => setSelectedIndex(index)}
+                    onClick={e => openItem(item, e.metaKey || e.ctrlKey)}
+                  >
+                    <span
+                      className="px-2 py-0.5 rounded-full text-xs font-medium font-roboto flex-shrink-0"
+                      style={{ backgroundColor: isTool ? '#F97316' : '#6544E9', color: '#FFFFFE' }}
+                    >
+                      {isTool ? 'Tool' : 'Activity'}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold truncate" style={{ color: '#230E77' }}>
+                        {item.displayName}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {item.shortDescription}
+                      </div>
+                    </div>
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        toggleStar(getFavoriteLibrary(item), item.id);
+                      }}
+                      className="p-1 rounded-lg hover:bg-gray-100 focus:outline-none"
+                      style={{ color: starred ? '#F59E0B' : '#9CA3AF' }}
+                      title={starred ? 'Remove from starred (Shift+Enter)' : 'Add to starred (Shift+Enter)'}
+                      tabIndex={-1}
+                    >
+                      {starred ? '★' : '☆'}
+                    </button>
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        openItem(item, true);
+                      }}
+                      className="p-1 rounded-lg hover:bg-gray-100 focus:outline-none text-gray-400"
+                      title="Open in new tab (Ctrl/⌘+Enter)"
+                      tabIndex={-1}
+                    >
+                      ↗
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-4 py-2 border-t text-xs text-gray-500 flex flex-wrap gap-x-4 gap-y-1" style={{ borderColor: '#D1D5DB' }}>
+          <span><strong>↑↓</strong> navigate</span>
+          <span><strong>Enter</strong> open</span>
+          <span><strong>Ctrl/⌘+Enter</strong> new tab</span>
+          <span><strong>Shift+Enter</strong> star</span>
+          <span><strong>Esc</strong> close</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
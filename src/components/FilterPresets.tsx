@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { useStoredState } from '../hooks/useStoredState';
+import {
+  FilterPreset,
+  PresetLibrary,
+  isPresetList,
+  exportPresets,
+  parsePresetsFile
+} from '../lib/presets';
+import { downloadFile } from '../lib/download';
+import { createId } from '../lib/ids';
+
+interface FilterPresetsProps {
+  library: PresetLibrary;
+  // The current search and filters, encoded as URL search params
+  currentParams: string;
+  onApply: (params: URLSearchParams) => void;
+  accentColor: string;
+}
+
+const FilterPresets = ({ library, currentParams, onApply, accentColor }: FilterPresetsProps) => {
+  const [presets, setPresets] = useStoredState<FilterPreset[]>(`refold-presets-${library}`, [], isPresetList);
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const savePreset = () => {
+    const name = newName.trim();
+    if (!name) return;
+    setPresets(prev => [...prev, { id: createId(), name, params: currentParams }]);
+    setNewName('');
+    setIsSaving(false);
+  };
+
+  const startRename = (preset: FilterPreset) => {
+    setEditingId(preset.id);
+    setEditingName(preset.name);
+  };
+
+  const finishRename = () => {
+    const name = editingName.trim();
+    if (name) {
+      setPresets(prev => prev.map(preset => (preset.id === editingId ? { ...preset, name } : preset)));
+    }
+    setEditingId(null);
+  };
+
+  const deletePreset = (preset: FilterPreset) => {
+    if (window.confirm(`Delete the preset "${preset.name}"?`)) {
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(`refold-${library}-presets.json`, exportPresets(library, presets), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresetsFile(await file.text(), library);
+      // Presets that were exported from here replace their older copies
+      setPresets(prev => [
+        ...prev.filter(preset => !imported.some(p => p.id === preset.id)),
+        ...imported
+      ]);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not import presets');
+    }
+  };
+
+  const smallButtonClass = 'px-2 py-1 text-xs border rounded hover:shadow-sm transition-all duration-200 focus:outline-none focus:ring-2 bg-white';
+
+  return (
+    <div className="mt-4 pt-3 border-t" style={{ borderColor: '#E5E7EB' }}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium font-roboto text-gray-700">Presets:</span>
+
+        {presets.length === 0 && !isSaving && (
+          <span className="text-sm text-gray-500">Save the current search and filters to reuse them later</span>
+        )}
+
+        {presets.map(preset => {
+          const isActive = preset.params === currentParams;
+
+          if (editingId === preset.id) {
+            return (
+              <input
+                key={preset.id}
+                autoFocus
+                value={editingName}
+                onChange={e => setEditingName(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="px-2 py-1 text-sm border rounded text-gray-800"
+                style={{ borderColor: accentColor }}
+              />
+            );
+          }
+
+          return (
+            <span
+              key={preset.id}
+              className="inline-flex items-center rounded-full border text-sm"
+              style={{
+                borderColor: accentColor,
+                backgroundColor: isActive ? accentColor : '#FFFFFE',
+                color: isActive ? '#FFFFFE' : accentColor
+              }}
+            >
+              <button
+                onClick={() => onApply(new URLSearchParams(preset.params))}
+                className="pl-3 pr-1 py-1 focus:outline-none"
+                title="Apply preset"
+              >
+                {preset.name}
+              </button>
+              <button
+                onClick={() => startRename(preset)}
+                className="px-1 py-1 opacity-70 hover:opacity-100 focus:outline-none"
+                title="Rename preset"
+                aria-label={`Rename preset ${preset.name}`}
+              >
+                ✎
+              </button>
+              <button
+                onClick={() => deletePreset(preset)}
+                className="pl-1 pr-3 py-1 opacity-70 hover:opacity-100 focus:outline-none"
+                title="Delete preset"
+                aria-label={`Delete preset ${preset.name}`}
+              >
+                ×
+              </button>
+            </span>
+          );
+        })}
+
+        {isSaving ? (
+          <span className="inline-flex items-center gap-1">
+            <input
+              autoFocus
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') savePreset();
+                if (e.key === 'Escape') setIsSaving(false);
+              }}
+              placeholder="Preset name"
+              className="px-2 py-1 text-sm border rounded text-gray-800"
+              style={{ borderColor: '#D1D5DB' }}
+            />
+            <button onClick={savePreset} className={smallButtonClass} style={{ color: accentColor, borderColor: accentColor }}>
+              Save
+            </button>
+            <button onClick={() => setIsSaving(false)} className={`${smallButtonClass} text-gray-600`} style={{ borderColor: '#D1D5DB' }}>
+              Cancel
+            </button>
+          </span>
+        ) : (
+          <button onClick={() => setIsSaving(true)} className={smallButtonClass} style={{ color: accentColor, borderColor: accentColor }}>
+            + Save current
+          </button>
+        )}
+
+        <span className="ml-auto inline-flex gap-2">
+          <button
+            onClick={handleExport}
+            disabled={presets.length === 0}
+            className={`${smallButtonClass} text-gray-600 disabled:opacity-50`}
+            style={{ borderColor: '#D1D5DB' }}
+          >
+            Export
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={`${smallButtonClass} text-gray-600`} style={{ borderColor: '#D1D5DB' }}>
+            Import
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </span>
+      </div>
+
+      {importError && (
+        <p className="mt-2 text-xs" style={{ color: '#DC2626' }}>{importError}</p>
+      )}
+    </div>
+  );
+};
+
+export default FilterPresets;
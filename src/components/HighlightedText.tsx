@@ -0,0 +1,33 @@
+import type { MatchRange } from '../lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: MatchRange[];
+}
+
+const HighlightedText = ({ text, ranges = [] }: HighlightedTextProps) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  ranges.forEach((range, i) => {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(
+      <mark key={i} className="rounded-sm" style={{ backgroundColor: '#FDE68A', color: 'inherit' }}>
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  });
+
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import ReactMarkdown from 'react-markdown';
+import { usePersistedState } from '../hooks/usePersistedState';
 
 interface IntroModalProps {
   showInitially?: boolean;
@@ -9,6 +10,8 @@ interface IntroModalProps {
   type?: 'activities' | 'tools';
 }
 
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
 const IntroModal = ({ showInitially = false, onClose, type = 'activities' }: IntroModalProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const [markdownContent, setMarkdownContent] = useState<string>('');
@@ -19,15 +22,20 @@ const IntroModal = ({ showInitially = false, onClose, type = 'activities' }: Int
   const firstH1Seen = useRef(false);
   
   // Separate storage keys for activities and tools
-  const STORAGE_KEY = `refold-intro-dismissed-${type}`;
+  const [dismissed, setDismissed, dismissedLoaded] = usePersistedState({
+    key: `refold-intro-dismissed-${type}`,
+    version: 1,
+    initialValue: false,
+    isValid: isBoolean
+  });
 
   const handleClose = useCallback(() => {
     if (dontShowAgain) {
-      localStorage.setItem(STORAGE_KEY, 'true');
+      setDismissed(true);
     }
     setIsOpen(false);
     onClose?.();
-  }, [dontShowAgain, onClose, STORAGE_KEY]);
+  }, [dontShowAgain, onClose, setDismissed]);
 
   // Load markdown content based on type
   useEffect(() => {
@@ -55,22 +63,19 @@ const IntroModal = ({ showInitially = false, onClose, type = 'activities' }: Int
 
   // Initialize checkbox state from localStorage
   useEffect(() => {
-    const dismissed = localStorage.getItem(STORAGE_KEY);
     if (dismissed) {
       setDontShowAgain(true);
     }
-  }, [STORAGE_KEY]);
+  }, [dismissed]);
 
   // Check if should show initially
   useEffect(() => {
-    if (showInitially && contentLoaded && markdownContent) {
-      const dismissed = localStorage.getItem(STORAGE_KEY);
-      if (!dismissed) {
-        // Delay showing the modal slightly
-        setTimeout(() => setIsOpen(true), 1500);
-      }
+    if (showInitially && contentLoaded && markdownContent && dismissedLoaded && !dismissed) {
+      // Delay showing the modal slightly
+      const timeout = setTimeout(() => setIsOpen(true), 1500);
+      return () => clearTimeout(timeout);
     }
-  }, [showInitially, contentLoaded, markdownContent, STORAGE_KEY]);
+  }, [showInitially, contentLoaded, markdownContent, dismissedLoaded, dismissed]);
 
   // Handle ESC key
   useEffect(() => {
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { usePracticeLog } from '../contexts/PracticeLogContext';
+import { DEFAULT_PRACTICE_MINUTES, toDateKey } from '../lib/practiceLog';
+import { formatMinutes } from '../lib/routine';
+
+interface LogPracticeButtonProps {
+  activityId: string;
+  size?: 'small' | 'medium';
+}
+
+const LogPracticeButton = ({ activityId, size = 'small' }: LogPracticeButtonProps) => {
+  const { getEntries, logPractice } = usePracticeLog();
+  const [isOpen, setIsOpen] = useState(false);
+  const [date, setDate] = useState('');
+  const [minutes, setMinutes] = useState(String(DEFAULT_PRACTICE_MINUTES));
+  const [note, setNote] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the form
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const entries = getEntries(activityId);
+  const loggedMinutes = entries.reduce((sum, entry) => sum + entry.minutes, 0);
+  const today = toDateKey(new Date());
+  const minutesValue = Math.round(Number(minutes));
+  const canSave = date !== '' && date <= today && minutesValue > 0;
+
+  const toggleForm = () => {
+    setDate(today);
+    setNote('');
+    setIsOpen(prev => !prev);
+  };
+
+  const save = () => {
+    if (!canSave) return;
+    logPractice({ activityId, date, minutes: minutesValue, note: note.trim() });
+    setIsOpen(false);
+  };
+
+  const iconSize = size === 'small' ? '16' : '20';
+  const buttonSize = size === 'small' ? 'p-1.5' : 'p-2';
+
+  return (
+    <div ref={menuRef} className="relative" onClick={e => e.stopPropagation()}>
+      <button
+        onClick={toggleForm}
+        className={`${buttonSize} rounded-lg transition-all duration-200 hover:bg-gray-100 focus:outline-none focus:ring-2 flex items-center gap-1`}
+        style={{ color: entries.length > 0 ? '#10B981' : '#9CA3AF' }}
+        title={entries.length > 0 ? `Log practice (${formatMinutes(loggedMinutes)} logged so far)` : 'Log practice'}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <svg
+          width={iconSize}
+          height={iconSize}
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <circle cx="12" cy="12" r="10"></circle>
+          <polyline points="12,6 12,12 16,14"></polyline>
+        </svg>
+        {entries.length > 0 && <span className="text-xs font-medium">{entries.length}</span>}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-1 w-64 bg-white rounded-lg shadow-lg border z-20 p-3 text-left cursor-default"
+          style={{ borderColor: '#D1D5DB' }}
+          onKeyDown={e => e.key === 'Escape' && setIsOpen(false)}
+        >
+          <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Log practice</div>
+
+          <div className="flex gap-2 mb-2">
+            <label className="flex-1 min-w-0 text-xs text-gray-600">
+              Date
+              <input
+                type="date"
+                value={date}
+                max={today}
+                onChange={e => setDate(e.target.value)}
+                className="w-full mt-1 px-2 py-1 text-sm border rounded text-gray-800"
+                style={{ borderColor: '#D1D5DB' }}
+              />
+            </label>
+            <label className="w-20 text-xs text-gray-600">
+              Minutes
+              <input
+                type="number"
+                min="1"
+                value={minutes}
+                onChange={e => setMinutes(e.target.value)}
+                className="w-full mt-1 px-2 py-1 text-sm border rounded text-gray-800"
+                style={{ borderColor: '#D1D5DB' }}
+              />
+            </label>
+          </div>
+
+          <input
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && save()}
+            placeholder="Note (optional)"
+            className="w-full mb-2 px-2 py-1 text-sm border rounded text-gray-800"
+            style={{ borderColor: '#D1D5DB' }}
+          />
+
+          <div className="flex items-center justify-between gap-2">
+            <Link href="/progress" className="text-xs hover:underline" style={{ color: '#6544E9' }}>
+              View progress
+            </Link>
+            <button
+              onClick={save}
+              disabled={!canSave}
+              className="px-3 py-1 text-xs rounded disabled:opacity-50 focus:outline-none focus:ring-2"
+              style={{ backgroundColor: '#10B981', color: '#FFFFFE' }}
+            >
+              Log
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LogPracticeButton;
@@ -0,0 +1,21 @@
+import HighlightedText from './HighlightedText';
+import { FieldMatch, getSnippet } from '../lib/search';
+
+interface MatchSnippetProps {
+  match: FieldMatch;
+}
+
+const MatchSnippet = ({ match }: MatchSnippetProps) => {
+  const snippet = getSnippet(match);
+
+  return (
+    <p className="text-xs text-gray-500 break-words">
+      <span className="font-medium text-gray-600">Matched in {match.label}: </span>
+      {snippet.truncatedStart && '…'}
+      <HighlightedText text={snippet.text} ranges={snippet.ranges} />
+      {snippet.truncatedEnd && '…'}
+    </p>
+  );
+};
+
+export default MatchSnippet;
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { useNotes } from '../contexts/NotesContext';
+import type { FavoriteLibrary } from '../lib/favorites';
+
+const AUTOSAVE_DELAY_MS = 500;
+
+interface NotesPanelProps {
+  library: FavoriteLibrary;
+  itemId: string;
+  accentColor: string;
+}
+
+const NotesPanel = ({ library, itemId, accentColor }: NotesPanelProps) => {
+  const { getNote, setNote } = useNotes();
+  const savedNote = getNote(library, itemId);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const pendingRef = useRef<string | null>(null);
+
+  // Always saves to the item the panel was showing, even during unmount
+  const saveRef = useRef(() => {});
+  saveRef.current = () => {
+    if (pendingRef.current === null) return;
+    setNote(library, itemId, pendingRef.current);
+    pendingRef.current = null;
+  };
+
+  // Auto-save shortly after typing stops
+  useEffect(() => {
+    if (!isEditing) return;
+    const timeout = setTimeout(() => saveRef.current(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, isEditing]);
+
+  // Don't lose the last few keystrokes when the card closes or the page changes
+  useEffect(() => () => saveRef.current(), []);
+
+  const startEditing = () => {
+    setDraft(savedNote);
+    setIsEditing(true);
+  };
+
+  const finishEditing = () => {
+    saveRef.current();
+    setIsEditing(false);
+  };
+
+  const handleChange = (value: string) => {
+    setDraft(value);
+    pendingRef.current = value;
+  };
+
+  return (
+    // Clicks in here shouldn't expand or collapse the surrounding card
+    <div className="rounded-lg border bg-white p-4 cursor-default" style={{ borderColor: '#D1D5DB' }} onClick={e => e.stopPropagation()}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h4 className="font-extrabold" style={{ color: '#230E77' }}>My Notes</h4>
+        <div className="flex items-center gap-3">
+          {isEditing && (
+            <span className="text-xs text-gray-500">
+              {draft.trim() === savedNote.trim() ? 'Saved on this device' : 'Saving...'}
+            </span>
+          )}
+          <button
+            onClick={isEditing ? finishEditing : startEditing}
+            className="px-3 py-1 text-sm border rounded bg-white hover:shadow-sm focus:outline-none focus:ring-2"
+            style={{ color: accentColor, borderColor: accentColor }}
+          >
+            {isEditing ? 'Done' : savedNote ? 'Edit' : 'Add notes'}
+          </button>
+        </div>
+      </div>
+
+      {isEditing ? (
+        <>
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={e => handleChange(e.target.value)}
+            onKeyDown={e => e.key === 'Escape' && finishEditing()}
+            rows={6}
+            placeholder="How you do this, what you've set up, what to try next..."
+            className="w-full px-3 py-2 border rounded text-sm font-mono text-gray-800 focus:outline-none focus:ring-2"
+            style={{ borderColor: '#D1D5DB' }}
+          />
+          <p className="mt-1 text-xs text-gray-500">Markdown is supported: **bold**, *italic*, - lists, [links](https://...)</p>
+        </>
+      ) : savedNote ? (
+        <div className="text-sm text-gray-700 break-words">
+          <ReactMarkdown
+            components={{
+              p: ({ children }) => <p className="mb-2 leading-relaxed">{children}</p>,
+              ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1">{children}</ul>,
+              ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-1">{children}</ol>,
+              a: ({ href, children }) => (
+                <a href={href} target="_blank" rel="noopener noreferrer" className="underline hover:no-underline" style={{ color: accentColor }}>
+                  {children}
+                </a>
+              ),
+              strong: ({ children }) => <strong className="font-bold" style={{ color: '#230E77' }}>{children}</strong>,
+              code: ({ children }) => <code className="px-1 py-0.5 bg-gray-100 rounded text-sm font-mono">{children}</code>
+            }}
+          >
+            {savedNote}
+          </ReactMarkdown>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Only you can see your notes. They&apos;re saved in this browser.</p>
+      )}
+    </div>
+  );
+};
+
+export default NotesPanel;
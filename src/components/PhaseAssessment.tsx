@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useMyPhase } from '../contexts/PhaseContext';
+import { PHASES } from '../lib/library';
+import { PHASE_QUESTIONS, PHASE_VIDEO_URL, placePhase } from '../lib/phase';
+
+const PhaseAssessment = () => {
+  const { myPhase, setMyPhase, isLoaded } = useMyPhase();
+  const [isOpen, setIsOpen] = useState(false);
+  const [answers, setAnswers] = useState<boolean[]>([]);
+  const [chosenPhase, setChosenPhase] = useState('');
+
+  const isFinished = (list: boolean[]) => list.length === PHASE_QUESTIONS.length || list.includes(false);
+  const placement = isFinished(answers) ? placePhase(answers) : '';
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('keydown', handleEsc);
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.removeEventListener('keydown', handleEsc);
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen]);
+
+  const open = () => {
+    setAnswers([]);
+    setChosenPhase(myPhase);
+    setIsOpen(true);
+  };
+
+  const answer = (value: boolean) => {
+    const next = [...answers, value];
+    setAnswers(next);
+    // Suggest the placement, which the learner can still change before saving
+    if (isFinished(next)) setChosenPhase(placePhase(next));
+  };
+
+  const save = () => {
+    setMyPhase(chosenPhase);
+    setIsOpen(false);
+  };
+
+  const buttonClass = 'px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 focus:outline-none focus:ring-2';
+
+  return (
+    <>
+      <button
+        onClick={open}
+        disabled={!isLoaded}
+        className="px-3 py-2 rounded-lg transition-colors duration-200 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-300 bg-gray-100 border border-gray-300 text-sm font-medium"
+        style={{ color: myPhase ? '#230E77' : '#6B7280' }}
+        title="Find out which phase you're in"
+      >
+        {myPhase ? `My phase: ${myPhase}` : 'Find my phase'}
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-50 p-4 bg-black bg-opacity-50 backdrop-blur-sm flex items-center justify-center"
+          onClick={e => e.target === e.currentTarget && setIsOpen(false)}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="phase-assessment-title"
+        >
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 text-left">
+            <div className="flex items-center justify-between mb-4">
+              <h2 id="phase-assessment-title" className="text-xl font-extrabold" style={{ color: '#230E77' }}>
+                Which phase am I in?
+              </h2>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="p-1 rounded-lg hover:bg-gray-100 focus:outline-none focus:ring-2 text-gray-500"
+                aria-label="Close"
+              >
+                ✕
+              </button>
+            </div>
+
+            {!placement ? (
+              <>
+                <p className="text-xs font-roboto text-gray-500 mb-2">
+                  Question {answers.length + 1} of {PHASE_QUESTIONS.length}
+                </p>
+                <p className="text-gray-800 mb-6">{PHASE_QUESTIONS[answers.length]}</p>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => answer(true)}
+                    className={buttonClass}
+                    style={{ backgroundColor: '#6544E9', color: '#FFFFFE' }}
+                  >
+                    Yes
+                  </button>
+                  <button
+                    onClick={() => answer(false)}
+                    className={`${buttonClass} border`}
+                    style={{ color: '#6544E9', borderColor: '#6544E9' }}
+                  >
+                    Not yet
+                  </button>
+                  {answers.length > 0 && (
+                    <button
+                      onClick={() => setAnswers(prev => prev.slice(0, -1))}
+                      className={`${buttonClass} ml-auto text-gray-500 hover:bg-gray-100`}
+                    >
+                      ← Back
+                    </button>
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-gray-800 mb-2">
+                  You&apos;re most likely in <strong style={{ color: '#230E77' }}>Phase {placement}</strong>.
+                </p>
+                <p className="text-sm text-gray-600 mb-4">
+                  This is a rough placement. The{' '}
+                  <a href={PHASE_VIDEO_URL} target="_blank" rel="noopener noreferrer" className="underline" style={{ color: '#6544E9' }}>
+                    phases video
+                  </a>{' '}
+                  explains each phase if you&apos;d like to check.
+                </p>
+                <label className="flex items-center gap-2 text-sm text-gray-700 mb-6">
+                  Save my phase as
+                  <select
+                    value={chosenPhase}
+                    onChange={e => setChosenPhase(e.target.value)}
+                    className="px-2 py-1 border rounded bg-white shadow-sm text-sm focus:ring-2 text-gray-800"
+                    style={{ borderColor: '#D1D5DB' }}
+                  >
+                    {PHASES.map(phase => <option key={phase} value={phase}>Phase {phase}</option>)}
+                  </select>
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  <button onClick={save} className={buttonClass} style={{ backgroundColor: '#6544E9', color: '#FFFFFE' }}>
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setAnswers([])}
+                    className={`${buttonClass} border`}
+                    style={{ color: '#6544E9', borderColor: '#6544E9' }}
+                  >
+                    Start over
+                  </button>
+                </div>
+              </>
+            )}
+
+            {myPhase && (
+              <div className="mt-6 pt-4 border-t text-sm text-gray-600 flex items-center justify-between" style={{ borderColor: '#E5E7EB' }}>
+                <span>Your saved phase is Phase {myPhase}.</span>
+                <button
+                  onClick={() => {
+                    setMyPhase('');
+                    setIsOpen(false);
+                  }}
+                  className="underline hover:no-underline"
+                >
+                  Clear it
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default PhaseAssessment;
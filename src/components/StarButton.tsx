@@ -1,20 +1,22 @@
-import { useStarredActivities } from '../contexts/StarredContext';
+import { useFavorites } from '../contexts/FavoritesContext';
+import type { FavoriteLibrary } from '../lib/favorites';
 
 interface StarButtonProps {
-  activityId: string;
+  library: FavoriteLibrary;
+  itemId: string;
   size?: 'small' | 'medium';
   className?: string;
 }
 
-const StarButton = ({ activityId, size = 'small', className = '' }: StarButtonProps) => {
-  const { isStarred, toggleStar } = useStarredActivities();
+const StarButton = ({ library, itemId, size = 'small', className = '' }: StarButtonProps) => {
+  const { isStarred, toggleStar } = useFavorites();
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    toggleStar(activityId);
+    toggleStar(library, itemId);
   };
 
-  const starred = isStarred(activityId);
+  const starred = isStarred(library, itemId);
   const iconSize = size === 'small' ? '16' : '20';
   const buttonSize = size === 'small' ? 'p-1.5' : 'p-2';
 
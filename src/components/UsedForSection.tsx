@@ -0,0 +1,39 @@
+import ActivityLink from './ActivityLink';
+import { groupByPillar } from '../lib/relationships';
+import { getPillarColor } from '../lib/routine';
+import type { Activity } from '../lib/library';
+
+interface UsedForSectionProps {
+  // Activities that list the tool in their Tools column
+  activities: Activity[];
+}
+
+const UsedForSection = ({ activities }: UsedForSectionProps) => {
+  if (activities.length === 0) return null;
+
+  return (
+    <div className="text-sm text-gray-600">
+      <strong style={{ color: '#230E77' }}>Used for:</strong>
+      <div className="mt-2 space-y-2">
+        {groupByPillar(activities).map(({ pillar, activities: grouped }) => (
+          <div key={pillar} className="flex flex-wrap items-baseline gap-x-2 gap-y-1">
+            <span
+              className="px-2 py-0.5 rounded-full text-xs font-medium font-roboto"
+              style={{ backgroundColor: getPillarColor(pillar), color: '#FFFFFE' }}
+            >
+              {pillar}
+            </span>
+            {grouped.map((activity, i) => (
+              <span key={activity.id}>
+                <ActivityLink activity={activity}>{activity.displayName}</ActivityLink>
+                {i < grouped.length - 1 && ','}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UsedForSection;
@@ -0,0 +1,175 @@
+'use client';
+
+import { createContext, useContext, useEffect, useRef, ReactNode } from 'react';
+import { useLibrary } from './LibraryContext';
+import { usePersistedState } from '../hooks/usePersistedState';
+import { PersistedStateConfig, readPersistedValue, writePersistedValue } from '../lib/persistedState';
+import {
+  FavoriteLibrary,
+  FavoriteIds,
+  FavoriteCollection,
+  FavoritesState,
+  FavoritesImportMode,
+  EMPTY_FAVORITES,
+  emptyFavoriteIds,
+  isFavoritesState,
+  isIdList,
+  splitIdsByLibrary,
+  mergeFavoriteIds,
+  mergeFavorites,
+  toggleId
+} from '../lib/favorites';
+import { createId } from '../lib/ids';
+
+const FAVORITES_STATE: PersistedStateConfig<FavoritesState> = {
+  key: 'refold-favorites',
+  version: 1,
+  initialValue: EMPTY_FAVORITES,
+  isValid: isFavoritesState
+};
+
+// The single starred list used before favorites were split by library
+const LEGACY_STARRED_STATE: PersistedStateConfig<string[]> = {
+  key: 'refold-starred-activities',
+  version: 0,
+  initialValue: [],
+  isValid: isIdList
+};
+
+interface FavoritesContextType {
+  favorites: FavoritesState;
+  starredIds: FavoriteIds;
+  isStarred: (library: FavoriteLibrary, itemId: string) => boolean;
+  toggleStar: (library: FavoriteLibrary, itemId: string) => void;
+  collections: FavoriteCollection[];
+  createCollection: (name: string) => string;
+  renameCollection: (collectionId: string, name: string) => void;
+  deleteCollection: (collectionId: string) => void;
+  isInCollection: (collectionId: string, library: FavoriteLibrary, itemId: string) => boolean;
+  toggleInCollection: (collectionId: string, library: FavoriteLibrary, itemId: string) => void;
+  importFavorites: (incoming: FavoritesState, mode: FavoritesImportMode) => void;
+  isLoaded: boolean;
+}
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+export const useFavorites = () => {
+  const context = useContext(FavoritesContext);
+  if (!context) {
+    throw new Error('useFavorites must be used within a FavoritesProvider');
+  }
+  return context;
+};
+
+interface FavoritesProviderProps {
+  children: ReactNode;
+}
+
+export const FavoritesProvider = ({ children }: FavoritesProviderProps) => {
+  const { activities, tools, isLoaded: libraryLoaded } = useLibrary();
+  const [favorites, setFavorites, isLoaded] = usePersistedState(FAVORITES_STATE);
+  // Merge at most once per page load, so later edits aren't undone by a re-merge
+  const legacyMergedRef = useRef(false);
+
+  // Fold the old flat starred list in once we know which of its ids are tools.
+  // Without library data (still loading, or it failed) that has to wait.
+  useEffect(() => {
+    if (legacyMergedRef.current || !isLoaded || !libraryLoaded || activities.length + tools.length === 0) return;
+
+    const legacy = readPersistedValue(LEGACY_STARRED_STATE);
+    if (legacy.status !== 'ok') return;
+
+    const legacyStarred = splitIdsByLibrary(
+      legacy.value,
+      new Set(activities.map(activity => activity.id)),
+      new Set(tools.map(tool => tool.id))
+    );
+    const merged = { ...favorites, starred: mergeFavoriteIds(favorites.starred, legacyStarred) };
+    legacyMergedRef.current = true;
+    setFavorites(merged);
+
+    // Only drop the old list once the merged one is saved; a failed write
+    // (full quota, unreadable or newer data) leaves it for the next load
+    if (!writePersistedValue(FAVORITES_STATE, merged)) return;
+    try {
+      localStorage.removeItem(LEGACY_STARRED_STATE.key);
+    } catch (error) {
+      console.error('Failed to remove old starred list:', error);
+    }
+  }, [isLoaded, libraryLoaded, activities, tools, favorites, setFavorites]);
+
+  const toggleStar = (library: FavoriteLibrary, itemId: string) => {
+    setFavorites(prev => ({
+      ...prev,
+      starred: { ...prev.starred, [library]: toggleId(prev.starred[library], itemId) }
+    }));
+  };
+
+  const isStarred = (library: FavoriteLibrary, itemId: string) => favorites.starred[library].includes(itemId);
+
+  const createCollection = (name: string) => {
+    const id = createId();
+    setFavorites(prev => ({
+      ...prev,
+      collections: [...prev.collections, { id, name, items: emptyFavoriteIds() }]
+    }));
+    return id;
+  };
+
+  const updateCollection = (collectionId: string, update: (collection: FavoriteCollection) => FavoriteCollection) => {
+    setFavorites(prev => ({
+      ...prev,
+      collections: prev.collections.map(collection =>
+        collection.id === collectionId ? update(collection) : collection
+      )
+    }));
+  };
+
+  const renameCollection = (collectionId: string, name: string) => {
+    updateCollection(collectionId, collection => ({ ...collection, name }));
+  };
+
+  const deleteCollection = (collectionId: string) => {
+    setFavorites(prev => ({
+      ...prev,
+      collections: prev.collections.filter(collection => collection.id !== collectionId)
+    }));
+  };
+
+  const isInCollection = (collectionId: string, library: FavoriteLibrary, itemId: string) =>
+    favorites.collections.some(collection =>
+      collection.id === collectionId && collection.items[library].includes(itemId)
+    );
+
+  const toggleInCollection = (collectionId: string, library: FavoriteLibrary, itemId: string) => {
+    updateCollection(collectionId, collection => ({
+      ...collection,
+      items: { ...collection.items, [library]: toggleId(collection.items[library], itemId) }
+    }));
+  };
+
+  const importFavorites = (incoming: FavoritesState, mode: FavoritesImportMode) => {
+    setFavorites(prev => (mode === 'replace' ? incoming : mergeFavorites(prev, incoming)));
+  };
+
+  const value: FavoritesContextType = {
+    favorites,
+    starredIds: favorites.starred,
+    isStarred,
+    toggleStar,
+    collections: favorites.collections,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    isInCollection,
+    toggleInCollection,
+    importFavorites,
+    isLoaded
+  };
+
+  return (
+    <FavoritesContext.Provider value={value}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+};
@@ -0,0 +1,74 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { loadLibrary, Activity, Tool } from '../lib/library';
+import { ToolRelationships, buildToolRelationships } from '../lib/relationships';
+
+interface LibraryContextType {
+  activities: Activity[];
+  tools: Tool[];
+  relationships: ToolRelationships;
+  isLoaded: boolean;
+  error: Error | null;
+}
+
+const LibraryContext = createContext<LibraryContextType | undefined>(undefined);
+
+export const useLibrary = () => {
+  const context = useContext(LibraryContext);
+  if (!context) {
+    throw new Error('useLibrary must be used within a LibraryProvider');
+  }
+  return context;
+};
+
+interface LibraryProviderProps {
+  children: ReactNode;
+}
+
+export const LibraryProvider = ({ children }: LibraryProviderProps) => {
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [tools, setTools] = useState<Tool[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // The provider lives in the root layout, so this runs once per session
+  // and the parsed data survives client navigations between pages
+  useEffect(() => {
+    let cancelled = false;
+
+    loadLibrary()
+      .then(data => {
+        if (cancelled) return;
+        setActivities(data.activities);
+        setTools(data.tools);
+      })
+      .catch(err => {
+        console.error('Error loading library data:', err);
+        if (!cancelled) setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const relationships = useMemo(() => buildToolRelationships(activities, tools), [activities, tools]);
+
+  const value: LibraryContextType = {
+    activities,
+    tools,
+    relationships,
+    isLoaded,
+    error
+  };
+
+  return (
+    <LibraryContext.Provider value={value}>
+      {children}
+    </LibraryContext.Provider>
+  );
+};
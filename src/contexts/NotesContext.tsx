@@ -0,0 +1,71 @@
+'use client';
+
+import { createContext, useContext, ReactNode } from 'react';
+import { usePersistedState } from '../hooks/usePersistedState';
+import type { PersistedStateConfig } from '../lib/persistedState';
+import type { FavoriteLibrary } from '../lib/favorites';
+import { NotesState, EMPTY_NOTES, isNotesState } from '../lib/notes';
+
+const NOTES_STATE: PersistedStateConfig<NotesState> = {
+  key: 'refold-notes',
+  version: 1,
+  initialValue: EMPTY_NOTES,
+  isValid: isNotesState
+};
+
+interface NotesContextType {
+  notes: NotesState;
+  getNote: (library: FavoriteLibrary, itemId: string) => string;
+  hasNote: (library: FavoriteLibrary, itemId: string) => boolean;
+  setNote: (library: FavoriteLibrary, itemId: string, note: string) => void;
+  isLoaded: boolean;
+}
+
+const NotesContext = createContext<NotesContextType | undefined>(undefined);
+
+export const useNotes = () => {
+  const context = useContext(NotesContext);
+  if (!context) {
+    throw new Error('useNotes must be used within a NotesProvider');
+  }
+  return context;
+};
+
+interface NotesProviderProps {
+  children: ReactNode;
+}
+
+export const NotesProvider = ({ children }: NotesProviderProps) => {
+  const [notes, setNotes, isLoaded] = usePersistedState(NOTES_STATE);
+
+  const getNote = (library: FavoriteLibrary, itemId: string) => notes[library][itemId] || '';
+
+  const hasNote = (library: FavoriteLibrary, itemId: string) => getNote(library, itemId).trim() !== '';
+
+  // Blank notes are removed rather than stored
+  const setNote = (library: FavoriteLibrary, itemId: string, note: string) => {
+    setNotes(prev => {
+      const libraryNotes = { ...prev[library] };
+      if (note.trim()) {
+        libraryNotes[itemId] = note;
+      } else {
+        delete libraryNotes[itemId];
+      }
+      return { ...prev, [library]: libraryNotes };
+    });
+  };
+
+  const value: NotesContextType = {
+    notes,
+    getNote,
+    hasNote,
+    setNote,
+    isLoaded
+  };
+
+  return (
+    <NotesContext.Provider value={value}>
+      {children}
+    </NotesContext.Provider>
+  );
+};
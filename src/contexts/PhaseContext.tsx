@@ -0,0 +1,50 @@
+'use client';
+
+import { createContext, useContext, ReactNode } from 'react';
+import { usePersistedState } from '../hooks/usePersistedState';
+import type { PersistedStateConfig } from '../lib/persistedState';
+import { isPhase } from '../lib/phase';
+
+const MY_PHASE_STATE: PersistedStateConfig<string> = {
+  key: 'refold-my-phase',
+  version: 1,
+  initialValue: '',
+  isValid: isPhase
+};
+
+interface PhaseContextType {
+  // The learner's Refold phase ('1'-'7'), or '' until they've picked one
+  myPhase: string;
+  setMyPhase: (phase: string) => void;
+  isLoaded: boolean;
+}
+
+const PhaseContext = createContext<PhaseContextType | undefined>(undefined);
+
+export const useMyPhase = () => {
+  const context = useContext(PhaseContext);
+  if (!context) {
+    throw new Error('useMyPhase must be used within a PhaseProvider');
+  }
+  return context;
+};
+
+interface PhaseProviderProps {
+  children: ReactNode;
+}
+
+export const PhaseProvider = ({ children }: PhaseProviderProps) => {
+  const [myPhase, setMyPhase, isLoaded] = usePersistedState(MY_PHASE_STATE);
+
+  const value: PhaseContextType = {
+    myPhase,
+    setMyPhase,
+    isLoaded
+  };
+
+  return (
+    <PhaseContext.Provider value={value}>
+      {children}
+    </PhaseContext.Provider>
+  );
+};
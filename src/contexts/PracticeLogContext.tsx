@@ -0,0 +1,75 @@
+'use client';
+
+import { createContext, useContext, ReactNode } from 'react';
+import { usePersistedState } from '../hooks/usePersistedState';
+import type { PersistedStateConfig } from '../lib/persistedState';
+import {
+  PracticeEntry,
+  PracticeImportMode,
+  isPracticeLog,
+  mergeEntries
+} from '../lib/practiceLog';
+import { createId } from '../lib/ids';
+
+const PRACTICE_LOG_STATE: PersistedStateConfig<PracticeEntry[]> = {
+  key: 'refold-practice-log',
+  version: 1,
+  initialValue: [],
+  isValid: isPracticeLog
+};
+
+interface PracticeLogContextType {
+  entries: PracticeEntry[];
+  getEntries: (activityId: string) => PracticeEntry[];
+  logPractice: (entry: Omit<PracticeEntry, 'id'>) => void;
+  deleteEntry: (entryId: string) => void;
+  importEntries: (incoming: PracticeEntry[], mode: PracticeImportMode) => void;
+  isLoaded: boolean;
+}
+
+const PracticeLogContext = createContext<PracticeLogContextType | undefined>(undefined);
+
+export const usePracticeLog = () => {
+  const context = useContext(PracticeLogContext);
+  if (!context) {
+    throw new Error('usePracticeLog must be used within a PracticeLogProvider');
+  }
+  return context;
+};
+
+interface PracticeLogProviderProps {
+  children: ReactNode;
+}
+
+export const PracticeLogProvider = ({ children }: PracticeLogProviderProps) => {
+  const [entries, setEntries, isLoaded] = usePersistedState(PRACTICE_LOG_STATE);
+
+  const getEntries = (activityId: string) => entries.filter(entry => entry.activityId === activityId);
+
+  const logPractice = (entry: Omit<PracticeEntry, 'id'>) => {
+    setEntries(prev => [...prev, { ...entry, id: createId() }]);
+  };
+
+  const deleteEntry = (entryId: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== entryId));
+  };
+
+  const importEntries = (incoming: PracticeEntry[], mode: PracticeImportMode) => {
+    setEntries(prev => (mode === 'replace' ? incoming : mergeEntries(prev, incoming)));
+  };
+
+  const value: PracticeLogContextType = {
+    entries,
+    getEntries,
+    logPractice,
+    deleteEntry,
+    importEntries,
+    isLoaded
+  };
+
+  return (
+    <PracticeLogContext.Provider value={value}>
+      {children}
+    </PracticeLogContext.Provider>
+  );
+};
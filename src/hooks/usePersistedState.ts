@@ -0,0 +1,37 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  PersistedStateConfig,
+  readPersistedValue,
+  writePersistedValue,
+  subscribeToPersistedValue
+} from '../lib/persistedState';
+
+// useState backed by a versioned localStorage key and kept in sync across tabs.
+// The stored value is read after mount, so server and first client render agree;
+// `isLoaded` turns true once it has been.
+export const usePersistedState = <T>(config: PersistedStateConfig<T>) => {
+  const [value, setValue] = useState<T>(config.initialValue);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  // Callers may build the config inline, so only the key is treated as identity
+  const configRef = useRef(config);
+  configRef.current = config;
+  const { key } = config;
+  // Tracking which key was loaded keeps one key's value from being saved under another
+  const isLoaded = loadedKey === key;
+
+  useEffect(() => {
+    const read = readPersistedValue(configRef.current);
+    setValue(read.status === 'ok' ? read.value : configRef.current.initialValue);
+    setLoadedKey(key);
+
+    return subscribeToPersistedValue(configRef.current, setValue);
+  }, [key]);
+
+  useEffect(() => {
+    if (isLoaded) writePersistedValue(configRef.current, value);
+  }, [key, value, isLoaded]);
+
+  return [value, setValue, isLoaded] as const;
+};
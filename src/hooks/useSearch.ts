@@ -0,0 +1,89 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { LibraryItem } from '../lib/library';
+import { SearchResult, searchWithMatches } from '../lib/search';
+import type { SearchWorkerRequest, SearchWorkerResponse } from '../lib/searchIndex';
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+const toUnscored = <T extends LibraryItem>(items: T[]): SearchResult<T>[] =>
+  items.map(item => ({ item, score: 0, matches: [] }));
+
+// Searches `items` in a Web Worker that keeps an inverted index of them, so
+// typing never blocks on a full scan. Falls back to searching on the main
+// thread where workers aren't available.
+export const useSearch = <T extends LibraryItem>(items: T[], query: string): SearchResult<T>[] => {
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequestRef = useRef(0);
+  const [workerFailed, setWorkerFailed] = useState(false);
+  const [results, setResults] = useState<SearchResult<T>[]>(() => toUnscored(items));
+
+  const itemsById = useMemo(() => new Map(items.map(item => [item.id, item])), [items]);
+  const itemsByIdRef = useRef(itemsById);
+  itemsByIdRef.current = itemsById;
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') {
+      setWorkerFailed(true);
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/search.worker.ts', import.meta.url));
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      const { requestId, results: found } = event.data;
+      // Drop responses to queries the user has already typed past
+      if (requestId !== latestRequestRef.current) return;
+
+      setResults(
+        found
+          .map(({ id, score, matches }) => {
+            const item = itemsByIdRef.current.get(id);
+            return item ? { item, score, matches } : null;
+          })
+          .filter((result): result is SearchResult<T> => result !== null)
+      );
+    };
+
+    worker.onerror = error => {
+      console.error('Search worker failed, searching on the main thread instead:', error);
+      setWorkerFailed(true);
+    };
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Rebuild the worker's index whenever the item list changes
+  useEffect(() => {
+    const request: SearchWorkerRequest = { type: 'index', items };
+    workerRef.current?.postMessage(request);
+  }, [items]);
+
+  useEffect(() => {
+    const requestId = ++latestRequestRef.current;
+
+    // Clearing the search shouldn't wait on the debounce
+    if (!query.trim()) {
+      setResults(toUnscored(items));
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      if (workerFailed || !workerRef.current) {
+        setResults(searchWithMatches(items, query));
+        return;
+      }
+      const request: SearchWorkerRequest = { type: 'search', requestId, query };
+      workerRef.current.postMessage(request);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [items, query, workerFailed]);
+
+  return results;
+};
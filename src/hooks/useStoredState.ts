@@ -0,0 +1,15 @@
+'use client';
+
+import { usePersistedState } from './usePersistedState';
+
+// useState backed by localStorage, for simple values whose shape hasn't changed
+// since they were first stored. The stored value is ignored unless `isValid`
+// accepts it. Values that need migrations should use usePersistedState directly.
+export const useStoredState = <T>(
+  key: string,
+  initialValue: T,
+  isValid: (value: unknown) => value is T
+) => {
+  const [value, setValue] = usePersistedState({ key, version: 1, initialValue, isValid });
+  return [value, setValue] as const;
+};
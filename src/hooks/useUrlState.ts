@@ -0,0 +1,63 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+
+const canonical = (params: URLSearchParams, ignoredKeys: string[] = []): string => {
+  const copy = new URLSearchParams(params);
+  ignoredKeys.forEach(key => copy.delete(key));
+  copy.sort();
+  return copy.toString();
+};
+
+// Keeps a page's view state in the URL query string. The page passes its state
+// serialized as `params`, and `onRestore` applies the URL's params on load and
+// on back/forward. Each change pushes a history entry, except changes to
+// `replaceKeys` alone (like the search box, which changes on every keystroke),
+// which update the current entry instead.
+export const useUrlState = (
+  params: URLSearchParams,
+  onRestore: (params: URLSearchParams) => void,
+  replaceKeys: string[] = []
+) => {
+  const [isRestored, setIsRestored] = useState(false);
+  const hasSyncedRef = useRef(false);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  useEffect(() => {
+    const restore = () => onRestoreRef.current(new URLSearchParams(window.location.search));
+
+    restore();
+    setIsRestored(true);
+
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, []);
+
+  const search = params.toString();
+  const replaceKeysKey = replaceKeys.join(',');
+
+  useEffect(() => {
+    if (!isRestored) return;
+
+    const current = new URLSearchParams(window.location.search);
+    const next = new URLSearchParams(search);
+    if (canonical(current) === canonical(next)) {
+      hasSyncedRef.current = true;
+      return;
+    }
+
+    const url = search ? `${window.location.pathname}?${search}` : window.location.pathname;
+    const ignoredKeys = replaceKeysKey ? replaceKeysKey.split(',') : [];
+
+    // The first write only tidies up the URL the page was opened with
+    if (!hasSyncedRef.current || canonical(current, ignoredKeys) === canonical(next, ignoredKeys)) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+    hasSyncedRef.current = true;
+  }, [search, isRestored, replaceKeysKey]);
+
+  return isRestored;
+};
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { TECH_LEVELS } from './library';
+import { ToolFilters, activityFiltersFromParams, toolFiltersFromParams } from './filters';
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// The API is read-only public data, so any origin may call it
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*'
+};
+
+export const jsonResponse = (data: unknown, status = 200) =>
+  NextResponse.json(data, { status, headers: CORS_HEADERS });
+
+export const errorResponse = (error: unknown) => {
+  if (error instanceof ApiError) {
+    return jsonResponse({ error: error.message }, error.status);
+  }
+  console.error('API error:', error);
+  return jsonResponse({ error: 'Internal server error' }, 500);
+};
+
+export const parseActivityFilters = activityFiltersFromParams;
+
+export const parseToolFilters = (params: URLSearchParams): ToolFilters => {
+  const techLevel = params.get('techLevel') || '';
+  if (techLevel && !(TECH_LEVELS as readonly number[]).includes(Number(techLevel))) {
+    throw new ApiError(400, `techLevel must be one of ${TECH_LEVELS.join(', ')}`);
+  }
+
+  return toolFiltersFromParams(params);
+};
@@ -0,0 +1,90 @@
+import { Tool, Activity, PRICING_EXPLANATIONS, TECH_LEVEL_EXPLANATIONS } from './library';
+
+export const COMPARE_IDS_PARAM = 'ids';
+
+// More columns than this stop fitting side by side
+export const MAX_COMPARE_TOOLS = 4;
+
+export const getComparePath = (ids: string[]): string =>
+  `/tools/compare?${COMPARE_IDS_PARAM}=${ids.join(',')}`;
+
+export const parseCompareIds = (param: string | null): string[] =>
+  param
+    ? Array.from(new Set(param.split(',').map(id => id.trim()).filter(Boolean))).slice(0, MAX_COMPARE_TOOLS)
+    : [];
+
+export type CompareRowKey = 'pricing' | 'techLevel' | 'platforms' | 'languages' | 'activities' | 'benefits' | 'download';
+
+export interface CompareCell {
+  // What the tools are compared on; cells with equal values count as the same
+  value: string;
+  items: string[];
+  explanation?: string;
+  links?: { label: string; href: string }[];
+}
+
+export interface CompareRow {
+  key: CompareRowKey;
+  label: string;
+  cells: CompareCell[];
+  differs: boolean;
+}
+
+// Lists are compared regardless of order
+const listValue = (values: string[]) => [...values].map(value => value.toLowerCase()).sort().join('|');
+
+const getCell = (key: CompareRowKey, tool: Tool, activitiesByTool: Map<string, Activity[]>): CompareCell => {
+  switch (key) {
+    case 'pricing':
+      return {
+        value: tool.pricing,
+        items: tool.pricing ? [tool.pricing] : [],
+        explanation: PRICING_EXPLANATIONS[tool.pricing]
+      };
+    case 'techLevel':
+      return {
+        value: tool.techLevel === null ? '' : String(tool.techLevel),
+        items: tool.techLevel === null ? [] : [`Tech Level ${tool.techLevel}`],
+        explanation: tool.techLevel === null ? undefined : TECH_LEVEL_EXPLANATIONS[tool.techLevel]
+      };
+    case 'platforms':
+      return { value: listValue(tool.platforms), items: tool.platforms };
+    case 'languages':
+      return {
+        value: listValue(tool.languages),
+        items: tool.languages.length === 0 ? ['All Languages'] : tool.languages
+      };
+    case 'activities': {
+      const using = activitiesByTool.get(tool.id) || [];
+      return {
+        value: listValue(using.map(activity => activity.id)),
+        items: [],
+        links: using.map(activity => ({ label: activity.displayName, href: `/activity/${activity.id}` }))
+      };
+    }
+    case 'benefits':
+      return { value: listValue(tool.benefits), items: tool.benefits };
+    case 'download':
+      return {
+        value: tool.downloadLink?.url || '',
+        items: [],
+        links: tool.downloadLink ? [{ label: tool.downloadLink.displayText, href: tool.downloadLink.url }] : []
+      };
+  }
+};
+
+const ROWS: { key: CompareRowKey; label: string }[] = [
+  { key: 'pricing', label: 'Pricing' },
+  { key: 'techLevel', label: 'Tech level' },
+  { key: 'platforms', label: 'Platforms' },
+  { key: 'languages', label: 'Languages' },
+  { key: 'activities', label: 'Recommended by' },
+  { key: 'benefits', label: 'Benefits' },
+  { key: 'download', label: 'Get the tool' }
+];
+
+export const buildComparison = (tools: Tool[], activitiesByTool: Map<string, Activity[]>): CompareRow[] =>
+  ROWS.map(({ key, label }) => {
+    const cells = tools.map(tool => getCell(key, tool, activitiesByTool));
+    return { key, label, cells, differs: new Set(cells.map(cell => cell.value)).size > 1 };
+  });
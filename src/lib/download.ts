@@ -0,0 +1,10 @@
+// Save generated text (CSV, JSON exports) as a file through a temporary link
+export const downloadFile = (name: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Some browsers start the download after click() returns, so revoke a little later
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,118 @@
+import type { LibraryItem } from './library';
+
+export type FavoriteLibrary = 'activities' | 'tools';
+
+export const FAVORITE_LIBRARIES: FavoriteLibrary[] = ['activities', 'tools'];
+
+// Item ids, kept apart per library so an id only ever means one thing
+export type FavoriteIds = Record<FavoriteLibrary, string[]>;
+
+export interface FavoriteCollection {
+  id: string;
+  name: string;
+  items: FavoriteIds;
+}
+
+export interface FavoritesState {
+  starred: FavoriteIds;
+  collections: FavoriteCollection[];
+}
+
+export const emptyFavoriteIds = (): FavoriteIds => ({ activities: [], tools: [] });
+
+export const EMPTY_FAVORITES: FavoritesState = { starred: emptyFavoriteIds(), collections: [] };
+
+export const getFavoriteLibrary = (item: LibraryItem): FavoriteLibrary =>
+  item.library === 'Tools' ? 'tools' : 'activities';
+
+export const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(id => typeof id === 'string');
+
+const isFavoriteIds = (value: unknown): value is FavoriteIds => {
+  if (!value || typeof value !== 'object') return false;
+  const ids = value as Record<string, unknown>;
+  return FAVORITE_LIBRARIES.every(library => isIdList(ids[library]));
+};
+
+const isCollection = (value: unknown): value is FavoriteCollection => {
+  if (!value || typeof value !== 'object') return false;
+  const collection = value as Record<string, unknown>;
+  return typeof collection.id === 'string' && typeof collection.name === 'string' && isFavoriteIds(collection.items);
+};
+
+export const isFavoritesState = (value: unknown): value is FavoritesState => {
+  if (!value || typeof value !== 'object') return false;
+  const state = value as Record<string, unknown>;
+  return isFavoriteIds(state.starred) && Array.isArray(state.collections) && state.collections.every(isCollection);
+};
+
+// Sort a flat id list (the old single starred list, or a share link) by which
+// library each id belongs to. Ids that no longer exist are dropped.
+export const splitIdsByLibrary = (ids: string[], activityIds: Set<string>, toolIds: Set<string>): FavoriteIds => {
+  const starred = emptyFavoriteIds();
+  ids.forEach(id => {
+    if (toolIds.has(id)) starred.tools.push(id);
+    else if (activityIds.has(id)) starred.activities.push(id);
+  });
+  return starred;
+};
+
+export const mergeFavoriteIds = (a: FavoriteIds, b: FavoriteIds): FavoriteIds => ({
+  activities: Array.from(new Set([...a.activities, ...b.activities])),
+  tools: Array.from(new Set([...a.tools, ...b.tools]))
+});
+
+export const toggleId = (ids: string[], id: string): string[] =>
+  ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+
+export type FavoritesImportMode = 'merge' | 'replace';
+
+// Collections with the same id (e.g. re-importing an earlier export) are combined
+export const mergeFavorites = (current: FavoritesState, incoming: FavoritesState): FavoritesState => {
+  const collections = current.collections.map(collection => {
+    const match = incoming.collections.find(other => other.id === collection.id);
+    return match ? { ...collection, name: match.name, items: mergeFavoriteIds(collection.items, match.items) } : collection;
+  });
+  incoming.collections
+    .filter(collection => !current.collections.some(other => other.id === collection.id))
+    .forEach(collection => collections.push(collection));
+
+  return { starred: mergeFavoriteIds(current.starred, incoming.starred), collections };
+};
+
+interface FavoritesFile extends FavoritesState {
+  format: 'refold-favorites';
+}
+
+export const exportFavorites = (favorites: FavoritesState): string => {
+  const file: FavoritesFile = { format: 'refold-favorites', ...favorites };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseFavoritesFile = (text: string): FavoritesState => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const { format, starred, collections } = (file || {}) as Partial<FavoritesFile>;
+  const favorites = { starred, collections };
+  if (format !== 'refold-favorites' || !isFavoritesState(favorites)) {
+    throw new Error('The file is not a Refold favorites export');
+  }
+  return favorites;
+};
+
+// Share links carry one flat, comma-separated id list; ids are unique across
+// both libraries, so the reader can sort them back out
+export const SHARE_IDS_PARAM = 'ids';
+
+export const getShareUrl = (origin: string, starred: FavoriteIds): string => {
+  const ids = [...starred.activities, ...starred.tools].join(',');
+  return `${origin}/starred?${SHARE_IDS_PARAM}=${ids}`;
+};
+
+export const parseShareIds = (param: string | null): string[] =>
+  param ? Array.from(new Set(param.split(',').map(id => id.trim()).filter(Boolean))) : [];
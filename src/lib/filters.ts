@@ -0,0 +1,123 @@
+import type { Activity, Tool } from './library';
+
+// Filter values as the list pages hold them; an empty value means "any".
+// Activity facets match items with any of the selected options.
+export interface ActivityFilters {
+  pillar: string[];
+  phase: string[];
+  parentSkill: string[];
+  type: string[];
+}
+
+export type ActivityFacet = keyof ActivityFilters;
+
+export interface ToolFilters {
+  platform: string[];
+  pricing: string;
+  // Highest tech level to include, as the select's string value
+  technicalRating: string;
+  languages: string[];
+}
+
+export const EMPTY_ACTIVITY_FILTERS: ActivityFilters = {
+  pillar: [],
+  phase: [],
+  parentSkill: [],
+  type: []
+};
+
+export const EMPTY_TOOL_FILTERS: ToolFilters = {
+  platform: [],
+  pricing: '',
+  technicalRating: '',
+  languages: []
+};
+
+const ACTIVITY_FACET_VALUES: Record<ActivityFacet, (activity: Activity) => string[]> = {
+  pillar: activity => (activity.pillar ? [activity.pillar] : []),
+  phase: activity => activity.phases,
+  parentSkill: activity => activity.parentSkills,
+  type: activity => (activity.type ? [activity.type] : [])
+};
+
+export const ACTIVITY_FACETS = Object.keys(ACTIVITY_FACET_VALUES) as ActivityFacet[];
+
+export const getActivityFacetValues = (activity: Activity, facet: ActivityFacet): string[] =>
+  ACTIVITY_FACET_VALUES[facet](activity);
+
+// `ignoredFacet` leaves one facet out, for counting what its options would yield
+export const matchesActivityFilters = (
+  activity: Activity,
+  filters: ActivityFilters,
+  ignoredFacet?: ActivityFacet
+): boolean =>
+  ACTIVITY_FACETS.every(facet => {
+    if (facet === ignoredFacet || filters[facet].length === 0) return true;
+    const values = getActivityFacetValues(activity, facet);
+    return filters[facet].some(option => values.includes(option));
+  });
+
+// How many of `activities` each option of a facet would yield on its own,
+// given the current selections in every other facet
+export const countActivityFacetOptions = (
+  activities: Activity[],
+  filters: ActivityFilters,
+  facet: ActivityFacet
+): Map<string, number> => {
+  const counts = new Map<string, number>();
+  activities
+    .filter(activity => matchesActivityFilters(activity, filters, facet))
+    .forEach(activity => {
+      getActivityFacetValues(activity, facet).forEach(option => {
+        counts.set(option, (counts.get(option) || 0) + 1);
+      });
+    });
+  return counts;
+};
+
+export const matchesToolFilters = (tool: Tool, filters: ToolFilters): boolean => {
+  const matchesPricing = !filters.pricing || tool.pricing === filters.pricing;
+
+  // Technical rating: include all tools with rating <= selected level
+  const matchesTechnicalRating = !filters.technicalRating ||
+    (tool.techLevel !== null && tool.techLevel <= parseInt(filters.technicalRating));
+
+  const matchesPlatform = filters.platform.length === 0 ||
+    filters.platform.some(platform => tool.platforms.includes(platform));
+
+  // Language filtering: include language-agnostic tools when any language is selected
+  const matchesLanguages = filters.languages.length === 0 ||
+    tool.languages.length === 0 ||
+    filters.languages.some(language => tool.languages.includes(language));
+
+  return matchesPricing && matchesTechnicalRating && matchesPlatform && matchesLanguages;
+};
+
+// URL search param encoding, shared by the list pages and the JSON API.
+// Array filters become repeated params (?platform=iOS&platform=Android).
+export const activityFiltersFromParams = (params: URLSearchParams): ActivityFilters => ({
+  pillar: params.getAll('pillar').filter(Boolean),
+  phase: params.getAll('phase').filter(Boolean),
+  parentSkill: params.getAll('parentSkill').filter(Boolean),
+  type: params.getAll('type').filter(Boolean)
+});
+
+export const activityFiltersToParams = (filters: ActivityFilters, params: URLSearchParams) => {
+  ACTIVITY_FACETS.forEach(facet => {
+    filters[facet].forEach(option => params.append(facet, option));
+  });
+};
+
+export const toolFiltersFromParams = (params: URLSearchParams): ToolFilters => ({
+  platform: params.getAll('platform').filter(Boolean),
+  pricing: params.get('pricing') || '',
+  technicalRating: params.get('techLevel') || '',
+  languages: params.getAll('language').filter(Boolean)
+});
+
+export const toolFiltersToParams = (filters: ToolFilters, params: URLSearchParams) => {
+  filters.platform.forEach(platform => params.append('platform', platform));
+  if (filters.pricing) params.set('pricing', filters.pricing);
+  if (filters.technicalRating) params.set('techLevel', filters.technicalRating);
+  filters.languages.forEach(language => params.append('language', language));
+};
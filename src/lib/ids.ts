@@ -0,0 +1,4 @@
+// Short ids for locally created records (presets, collections, sessions, log entries).
+// Time-based with a random suffix, since crypto.randomUUID needs a secure context.
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
@@ -0,0 +1,297 @@
+import Papa from 'papaparse';
+
+export const LIBRARY_DATA_URL = '/data/export_activity_library.tsv';
+
+export type LibraryName = 'Activities' | 'Tools';
+
+// A cleaned TSV row, keyed by the spreadsheet column headers
+export type RawRow = Record<string, string>;
+
+// Spreadsheet columns shared by both libraries
+const BASE_COLUMNS = {
+  id: 'id',
+  codeName: 'code name',
+  displayName: 'Display Name',
+  aliases: 'Aliases',
+  shortDescription: 'Short Description',
+  longDescription: 'Long Description',
+  benefits: 'Benefits',
+  guideIntro: 'Written Guide - Intro',
+  guideIssues: 'Written Guide - Issues',
+  guideSetup: 'Written Guide - Setup',
+  guideWalkthrough: 'Written Guide - Walkthrough',
+  guideTipsAndTricks: 'Written Guide - Tips and Tricks',
+  videoWhatAndWhy: 'Video What and why',
+  videoDemo: 'Video Demo',
+  alternatives: 'Alternatives',
+  library: 'Library'
+} as const;
+
+export const ACTIVITY_COLUMNS = {
+  ...BASE_COLUMNS,
+  guideHealthRoutine: 'Written Guide - Health Routine',
+  type: 'Type',
+  pillar: 'Pillar',
+  phases: 'Refold Phase(s)',
+  parentSkills: 'Parent Skills',
+  childTechniques: 'Child Techniques',
+  parentCategories: 'Parent Categories',
+  subTechniques: 'Sub-techniques',
+  tools: 'Tools'
+} as const;
+
+// Tool rows reuse the activity columns with different meanings, so every
+// tool field is read through this mapping rather than the column name
+export const TOOL_COLUMNS = {
+  ...BASE_COLUMNS,
+  guideTargetAudience: 'Written Guide - Health Routine',
+  pricing: 'Pillar',
+  techLevel: 'Refold Phase(s)',
+  platforms: 'Type',
+  languages: 'Parent Skills',
+  techniques: 'Child Techniques',
+  downloadLink: 'Tools'
+} as const;
+
+export const PILLARS = ['Interactive', 'Freeflow', 'Priming'];
+
+export const PHASES = ['1', '2', '3', '4', '5', '6', '7'];
+
+export const PRICING_TIERS = ['Free', 'Cosmetics', 'Freemium', 'Paid'] as const;
+
+export const PRICING_EXPLANATIONS: Record<string, string> = {
+  'Free': 'Completely free to use',
+  'Cosmetics': 'Features are free, but small tweaks and customization is paid (colors, cloud syncing, ad removal)',
+  'Freemium': 'There is a free tier which has features, but you must pay to access additional features',
+  'Paid': 'Access to the tool is paid, either one time or with a subscription. Many paid tools have free trials'
+};
+
+export const TECH_LEVELS = [1, 2, 3, 4, 5] as const;
+
+export const TECH_LEVEL_EXPLANATIONS: Record<number, string> = {
+  1: 'No experience required. There is minimal set up, and it\'s very user-friendly (simple apps or web pages).',
+  2: 'Purpose built tool with learning curve. Using the tool is generally simple, but might require learning or some customization.',
+  3: 'User friendly, but requires setup and learning. Still approachable for most people, but will require effort to learn and set up.',
+  4: 'Slightly technical. Using the tool might require tinkering, special knowledge or a non-standard setup.',
+  5: 'Very technical. Using and installing the tool might require technical experience and troubleshooting.'
+};
+
+export interface GuideSections {
+  intro: string;
+  issues: string;
+  setup: string;
+  walkthrough: string;
+  tipsAndTricks: string;
+}
+
+export interface ActivityGuide extends GuideSections {
+  healthRoutine: string;
+}
+
+export interface ToolGuide extends GuideSections {
+  targetAudience: string;
+}
+
+export interface MarkdownLink {
+  displayText: string;
+  url: string;
+}
+
+interface LibraryItemBase {
+  id: string;
+  codeName: string;
+  // Falls back to the code name when the sheet has no display name
+  displayName: string;
+  aliases: string[];
+  shortDescription: string;
+  longDescription: string;
+  benefits: string[];
+  videoWhatAndWhy: string;
+  videoDemo: string;
+  alternatives: string[];
+  // The learner's own markdown notes, attached on the client (see notes.ts)
+  notes?: string;
+}
+
+export interface Activity extends LibraryItemBase {
+  library: 'Activities';
+  guide: ActivityGuide;
+  type: string;
+  pillar: string;
+  phases: string[];
+  parentSkills: string[];
+  childTechniques: string[];
+  parentCategories: string[];
+  subTechniques: string[];
+  tools: string[];
+}
+
+export interface Tool extends LibraryItemBase {
+  library: 'Tools';
+  guide: ToolGuide;
+  pricing: string;
+  techLevel: number | null;
+  platforms: string[];
+  // Empty when the tool works with any language
+  languages: string[];
+  // Activities and techniques the sheet lists the tool under
+  techniques: string[];
+  downloadLink: MarkdownLink | null;
+}
+
+export type LibraryItem = Activity | Tool;
+
+export interface LibraryData {
+  activities: Activity[];
+  tools: Tool[];
+}
+
+const cleanCell = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/\r/g, '').replace(/⏎/g, '\n').trim() : '';
+
+// Split a multi-value cell, dropping blanks and the sheet's "#N/A" placeholder
+const splitList = (value: string, separator: RegExp): string[] =>
+  value
+    .split(separator)
+    .map(part => part.trim())
+    .filter(part => part && part !== '#N/A');
+
+const parseAliases = (value: string): string[] =>
+  value
+    .split(/\r?\n|; ?/)
+    .map(alias => alias.trim().replace(/^[-–—]\s*/, ''))
+    .filter(Boolean);
+
+export const compareById = (a: { id: string }, b: { id: string }): number => {
+  const idA = parseInt(a.id) || 0;
+  const idB = parseInt(b.id) || 0;
+  return idA - idB;
+};
+
+// Parse the raw TSV into cleaned rows, with "⏎" markers turned back into newlines
+export const parseRows = (text: string): RawRow[] => {
+  const result = Papa.parse<Record<string, unknown>>(text, {
+    header: true,
+    delimiter: '\t',
+    skipEmptyLines: false
+  });
+
+  return result.data.map(row => {
+    const cleaned: RawRow = {};
+    Object.entries(row).forEach(([key, value]) => {
+      cleaned[key] = cleanCell(value);
+    });
+    return cleaned;
+  });
+};
+
+// Parse a "[Display Text](https://example.com)" cell; anything else is treated as a bare URL
+export const parseMarkdownLink = (text: string): MarkdownLink => {
+  const match = text.match(/^\[([^\]]+)\]\(([^)]+)\)$/);
+
+  if (match) {
+    return {
+      displayText: match[1],
+      url: match[2]
+    };
+  }
+
+  return {
+    displayText: text,
+    url: text
+  };
+};
+
+const parseLanguages = (value: string): string[] => {
+  const languages = splitList(value, /[;,]+/).map(language => language.replace(/^and\s+/i, ''));
+  return languages.length === 1 && languages[0] === 'All' ? [] : languages;
+};
+
+const toBaseItem = (row: RawRow) => ({
+  id: row[BASE_COLUMNS.id] || '',
+  codeName: row[BASE_COLUMNS.codeName] || '',
+  displayName: row[BASE_COLUMNS.displayName] || row[BASE_COLUMNS.codeName] || '',
+  aliases: parseAliases(row[BASE_COLUMNS.aliases] || ''),
+  shortDescription: row[BASE_COLUMNS.shortDescription] || '',
+  longDescription: row[BASE_COLUMNS.longDescription] || '',
+  benefits: splitList(row[BASE_COLUMNS.benefits] || '', /;+/),
+  videoWhatAndWhy: row[BASE_COLUMNS.videoWhatAndWhy] || '',
+  videoDemo: row[BASE_COLUMNS.videoDemo] || '',
+  alternatives: splitList(row[BASE_COLUMNS.alternatives] || '', /[;,]+/)
+});
+
+const toBaseGuide = (row: RawRow): GuideSections => ({
+  intro: row[BASE_COLUMNS.guideIntro] || '',
+  issues: row[BASE_COLUMNS.guideIssues] || '',
+  setup: row[BASE_COLUMNS.guideSetup] || '',
+  walkthrough: row[BASE_COLUMNS.guideWalkthrough] || '',
+  tipsAndTricks: row[BASE_COLUMNS.guideTipsAndTricks] || ''
+});
+
+export const toActivity = (row: RawRow): Activity => ({
+  ...toBaseItem(row),
+  library: 'Activities',
+  guide: {
+    ...toBaseGuide(row),
+    healthRoutine: row[ACTIVITY_COLUMNS.guideHealthRoutine] || ''
+  },
+  type: row[ACTIVITY_COLUMNS.type] || '',
+  pillar: row[ACTIVITY_COLUMNS.pillar] || '',
+  phases: splitList(row[ACTIVITY_COLUMNS.phases] || '', /;+/),
+  parentSkills: splitList(row[ACTIVITY_COLUMNS.parentSkills] || '', /[;,]+/),
+  childTechniques: splitList(row[ACTIVITY_COLUMNS.childTechniques] || '', /;+/),
+  parentCategories: splitList(row[ACTIVITY_COLUMNS.parentCategories] || '', /;+/),
+  subTechniques: splitList(row[ACTIVITY_COLUMNS.subTechniques] || '', /;+/),
+  tools: splitList(row[ACTIVITY_COLUMNS.tools] || '', /;+/)
+});
+
+export const toTool = (row: RawRow): Tool => {
+  const techLevel = parseInt(row[TOOL_COLUMNS.techLevel] || '');
+  const downloadLink = row[TOOL_COLUMNS.downloadLink] || '';
+
+  return {
+    ...toBaseItem(row),
+    library: 'Tools',
+    guide: {
+      ...toBaseGuide(row),
+      targetAudience: row[TOOL_COLUMNS.guideTargetAudience] || ''
+    },
+    pricing: row[TOOL_COLUMNS.pricing] || '',
+    techLevel: isNaN(techLevel) ? null : techLevel,
+    platforms: splitList(row[TOOL_COLUMNS.platforms] || '', /[;,]+/),
+    languages: parseLanguages(row[TOOL_COLUMNS.languages] || ''),
+    techniques: splitList(row[TOOL_COLUMNS.techniques] || '', /;+/),
+    downloadLink: downloadLink ? parseMarkdownLink(downloadLink) : null
+  };
+};
+
+export const parseLibrary = (text: string): LibraryData => {
+  const rows = parseRows(text);
+
+  return {
+    activities: rows.filter(row => row[BASE_COLUMNS.library] === 'Activities').map(toActivity).sort(compareById),
+    tools: rows.filter(row => row[BASE_COLUMNS.library] === 'Tools').map(toTool).sort(compareById)
+  };
+};
+
+let libraryPromise: Promise<LibraryData> | null = null;
+
+// Fetch and parse the library once per session; later callers share the same result
+export const loadLibrary = (): Promise<LibraryData> => {
+  if (!libraryPromise) {
+    libraryPromise = fetch(LIBRARY_DATA_URL)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to fetch library data: ${response.status} ${response.statusText}`);
+        }
+        return response.text();
+      })
+      .then(parseLibrary)
+      .catch(error => {
+        // Allow a retry on the next call instead of caching the failure
+        libraryPromise = null;
+        throw error;
+      });
+  }
+  return libraryPromise;
+};
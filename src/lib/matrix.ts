@@ -0,0 +1,112 @@
+import Papa from 'papaparse';
+import type { Activity, Tool } from './library';
+import { EMPTY_ACTIVITY_FILTERS, EMPTY_TOOL_FILTERS, matchesActivityFilters, matchesToolFilters } from './filters';
+import { ToolRelationships, PillarGroup, groupByPillar } from './relationships';
+
+export interface MatrixFilters {
+  // Empty values mean "any", as on the list pages
+  phase: string;
+  pricing: string;
+  // Highest tech level to include
+  techLevel: string;
+  // Keep activities and tools that have no marker in the filtered matrix
+  showEmpty: boolean;
+}
+
+export const EMPTY_MATRIX_FILTERS: MatrixFilters = {
+  phase: '',
+  pricing: '',
+  techLevel: '',
+  showEmpty: false
+};
+
+// Same param names as the list pages, so links between them read the same
+export const matrixFiltersFromParams = (params: URLSearchParams): MatrixFilters => ({
+  phase: params.get('phase') || '',
+  pricing: params.get('pricing') || '',
+  techLevel: params.get('techLevel') || '',
+  showEmpty: params.get('empty') === '1'
+});
+
+export const matrixFiltersToParams = (filters: MatrixFilters, params: URLSearchParams) => {
+  if (filters.phase) params.set('phase', filters.phase);
+  if (filters.pricing) params.set('pricing', filters.pricing);
+  if (filters.techLevel) params.set('techLevel', filters.techLevel);
+  if (filters.showEmpty) params.set('empty', '1');
+};
+
+export interface PlatformGroup {
+  platform: string;
+  tools: Tool[];
+}
+
+// Tools on several platforms are filed under the first one the sheet lists
+export const groupByPlatform = (tools: Tool[]): PlatformGroup[] => {
+  const groups = new Map<string, Tool[]>();
+  tools.forEach(tool => {
+    const platform = tool.platforms[0] || 'Other';
+    groups.set(platform, [...(groups.get(platform) || []), tool]);
+  });
+  return Array.from(groups, ([platform, grouped]) => ({ platform, tools: grouped }))
+    .sort((a, b) => (a.platform === 'Other' ? 1 : b.platform === 'Other' ? -1 : a.platform.localeCompare(b.platform)));
+};
+
+export interface ActivityToolMatrix {
+  rows: PillarGroup[];
+  columns: PlatformGroup[];
+  isLinked: (activityId: string, toolId: string) => boolean;
+}
+
+export const buildMatrix = (
+  activities: Activity[],
+  tools: Tool[],
+  relationships: ToolRelationships,
+  filters: MatrixFilters
+): ActivityToolMatrix => {
+  const activityFilters = { ...EMPTY_ACTIVITY_FILTERS, phase: filters.phase ? [filters.phase] : [] };
+  const toolFilters = { ...EMPTY_TOOL_FILTERS, pricing: filters.pricing, technicalRating: filters.techLevel };
+
+  let rowActivities = activities.filter(activity => matchesActivityFilters(activity, activityFilters));
+  let columnTools = tools.filter(tool => matchesToolFilters(tool, toolFilters));
+
+  const toolIds = new Set(columnTools.map(tool => tool.id));
+  const links = new Set<string>();
+  const linkedActivityIds = new Set<string>();
+  const linkedToolIds = new Set<string>();
+  rowActivities.forEach(activity => {
+    (relationships.toolsByActivity.get(activity.id) || [])
+      .filter(tool => toolIds.has(tool.id))
+      .forEach(tool => {
+        links.add(`${activity.id}:${tool.id}`);
+        linkedActivityIds.add(activity.id);
+        linkedToolIds.add(tool.id);
+      });
+  });
+
+  if (!filters.showEmpty) {
+    rowActivities = rowActivities.filter(activity => linkedActivityIds.has(activity.id));
+    columnTools = columnTools.filter(tool => linkedToolIds.has(tool.id));
+  }
+
+  return {
+    rows: groupByPillar(rowActivities),
+    columns: groupByPlatform(columnTools),
+    isLinked: (activityId, toolId) => links.has(`${activityId}:${toolId}`)
+  };
+};
+
+export const exportMatrixCsv = (matrix: ActivityToolMatrix): string => {
+  const tools = matrix.columns.flatMap(group => group.tools);
+  // Names come from the sheet, so escape any a spreadsheet would run as a formula
+  return Papa.unparse({
+    fields: ['Pillar', 'Activity', 'Phases', ...tools.map(tool => `${tool.displayName} (${tool.platforms.join(', ') || 'Other'})`)],
+    data: matrix.rows.flatMap(({ pillar, activities }) =>
+      activities.map(activity => [
+        pillar,
+        activity.displayName,
+        activity.phases.join(', '),
+        ...tools.map(tool => (matrix.isLinked(activity.id, tool.id) ? 'x' : ''))
+      ])
+    )
+  }, { newline: '\n', escapeFormulae: true });
+};
@@ -0,0 +1,22 @@
+import type { LibraryItem } from './library';
+import { FavoriteLibrary, FAVORITE_LIBRARIES } from './favorites';
+
+// Markdown notes per library, keyed by item id
+export type NotesState = Record<FavoriteLibrary, Record<string, string>>;
+
+export const EMPTY_NOTES: NotesState = { activities: {}, tools: {} };
+
+const isNoteMap = (value: unknown): value is Record<string, string> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  Object.values(value).every(note => typeof note === 'string');
+
+export const isNotesState = (value: unknown): value is NotesState => {
+  if (!value || typeof value !== 'object') return false;
+  const notes = value as Record<string, unknown>;
+  return FAVORITE_LIBRARIES.every(library => isNoteMap(notes[library]));
+};
+
+// Copies of the items that have notes, with the note attached so search can
+// match it like any other field. Items without notes are passed through as-is.
+export const attachNotes = <T extends LibraryItem>(items: T[], notes: Record<string, string>): T[] =>
+  items.map(item => (notes[item.id] ? { ...item, notes: notes[item.id] } : item));
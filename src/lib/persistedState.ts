@@ -0,0 +1,140 @@
+// Versioned localStorage values. Each key is stored as an envelope holding its
+// schema version, so a changed shape can be upgraded instead of thrown away.
+export interface PersistedStateConfig<T> {
+  key: string;
+  version: number;
+  initialValue: T;
+  isValid: (value: unknown) => value is T;
+  // migrations[n] upgrades data stored at version n to version n + 1. Versions
+  // without one are assumed to share the next version's shape.
+  migrations?: Record<number, (data: unknown) => unknown>;
+}
+
+interface Envelope {
+  schemaVersion: number;
+  data: unknown;
+}
+
+export type PersistedRead<T> =
+  | { status: 'missing' }
+  | { status: 'ok'; value: T }
+  // Written by a newer version of the app; left alone so it isn't downgraded
+  | { status: 'newer' }
+  // `backedUp` says whether a copy of the stored text is safe to overwrite
+  | { status: 'unreadable'; backedUp: boolean };
+
+const isEnvelope = (value: unknown): value is Envelope =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as Envelope).schemaVersion === 'number' &&
+  'data' in value;
+
+// Anything that isn't an envelope predates versioning and counts as version 0
+const unwrap = (raw: string): Envelope => {
+  const parsed = JSON.parse(raw);
+  return isEnvelope(parsed) ? parsed : { schemaVersion: 0, data: parsed };
+};
+
+const MAX_BACKUPS = 3;
+
+const backupPrefix = (key: string) => `${key}.backup.`;
+
+// Backup keys of a stored key, oldest first (the ISO timestamps sort by time)
+const getBackupKeys = (key: string): string[] =>
+  Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+    .filter((storedKey): storedKey is string => !!storedKey?.startsWith(backupPrefix(key)))
+    .sort();
+
+// Keep copies of data we couldn't read, so a bad deploy or a hand edit can
+// still be recovered. Each unreadable version gets its own timestamped key and
+// only the latest few are kept. Returns whether a copy of `raw` is stored.
+const backUp = (key: string, raw: string): boolean => {
+  try {
+    const backupKeys = getBackupKeys(key);
+    const latest = backupKeys[backupKeys.length - 1];
+    if (latest && localStorage.getItem(latest) === raw) return true;
+
+    localStorage.setItem(`${backupPrefix(key)}${new Date().toISOString()}`, raw);
+    backupKeys.slice(0, Math.max(0, backupKeys.length + 1 - MAX_BACKUPS))
+      .forEach(oldKey => localStorage.removeItem(oldKey));
+    return true;
+  } catch (error) {
+    console.error(`Failed to back up ${key}:`, error);
+    return false;
+  }
+};
+
+export const parsePersistedValue = <T>(config: PersistedStateConfig<T>, raw: string | null): PersistedRead<T> => {
+  if (raw === null) return { status: 'missing' };
+
+  try {
+    let { schemaVersion, data } = unwrap(raw);
+    if (schemaVersion > config.version) return { status: 'newer' };
+
+    while (schemaVersion < config.version) {
+      const migrate = config.migrations?.[schemaVersion];
+      if (migrate) data = migrate(data);
+      schemaVersion++;
+    }
+
+    if (config.isValid(data)) return { status: 'ok', value: data };
+    console.error(`Stored ${config.key} has an unexpected shape`);
+  } catch (error) {
+    console.error(`Failed to read ${config.key}:`, error);
+  }
+
+  return { status: 'unreadable', backedUp: backUp(config.key, raw) };
+};
+
+export const readPersistedValue = <T>(config: PersistedStateConfig<T>): PersistedRead<T> => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(config.key);
+  } catch (error) {
+    // Storage can be disabled entirely (e.g. some private browsing modes)
+    console.error(`Failed to read ${config.key}:`, error);
+    return { status: 'unreadable', backedUp: false };
+  }
+  return parsePersistedValue(config, raw);
+};
+
+// Returns whether the value was saved. Failures (like a full quota) leave the
+// stored copy as it was rather than clearing it.
+export const writePersistedValue = <T>(config: PersistedStateConfig<T>, value: T): boolean => {
+  try {
+    const current = localStorage.getItem(config.key);
+    if (current !== null) {
+      const read = parsePersistedValue(config, current);
+      if (read.status === 'newer') return false;
+      // Data we couldn't read is only replaced once a copy of it is safe
+      if (read.status === 'unreadable' && !read.backedUp) return false;
+    }
+
+    const serialized = JSON.stringify({ schemaVersion: config.version, data: value } satisfies Envelope);
+    // Skipping identical writes also stops tabs echoing each other's updates
+    if (serialized !== current) localStorage.setItem(config.key, serialized);
+    return true;
+  } catch (error) {
+    console.error(`Failed to save ${config.key}:`, error);
+    return false;
+  }
+};
+
+// Calls back with the new value whenever another tab changes the key
+export const subscribeToPersistedValue = <T>(
+  config: PersistedStateConfig<T>,
+  onChange: (value: T) => void
+) => {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.storageArea !== localStorage) return;
+    // A null key means another tab cleared all of storage
+    if (e.key !== null && e.key !== config.key) return;
+
+    const read = parsePersistedValue(config, e.key === null ? null : e.newValue);
+    if (read.status === 'ok') onChange(read.value);
+    if (read.status === 'missing') onChange(config.initialValue);
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
@@ -0,0 +1,24 @@
+import { Activity, PHASES } from './library';
+
+export const PHASE_VIDEO_URL = 'https://youtu.be/Jo4ds4mxuhU';
+
+// Milestones in the order learners usually reach them. Each "yes" moves the
+// placement one phase further; the first "no" is where the learner is now.
+export const PHASE_QUESTIONS = [
+  'Do you know the writing system and sounds of the language, plus a few hundred of its most common words?',
+  'Can you work through simple sentences or short texts with help from a dictionary or translation?',
+  'Can you follow easy native audio or video when you focus, even if you need to pause and replay?',
+  'Have you started speaking or writing in the language, even slowly and with mistakes?',
+  'Can you read and watch native content for fun without constantly looking things up?',
+  'Can you hold relaxed conversations about everyday topics?'
+];
+
+export const isPhase = (value: unknown): value is string =>
+  value === '' || (typeof value === 'string' && PHASES.includes(value));
+
+export const placePhase = (answers: boolean[]): string => {
+  const reached = answers.findIndex(answer => !answer);
+  return PHASES[reached === -1 ? answers.length : reached];
+};
+
+export const fitsPhase = (activity: Activity, phase: string): boolean => activity.phases.includes(phase);
@@ -0,0 +1,233 @@
+import Papa from 'papaparse';
+import { Activity, PILLARS } from './library';
+import { createId } from './ids';
+import { toBreakdown, addMinutes } from './routine';
+
+export const DEFAULT_PRACTICE_MINUTES = 30;
+
+export interface PracticeEntry {
+  id: string;
+  activityId: string;
+  // Local calendar day, as YYYY-MM-DD
+  date: string;
+  minutes: number;
+  note: string;
+}
+
+const isPracticeEntry = (value: unknown): value is PracticeEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.id === 'string' &&
+    typeof entry.activityId === 'string' &&
+    typeof entry.date === 'string' && isDateKey(entry.date) &&
+    typeof entry.minutes === 'number' &&
+    typeof entry.note === 'string';
+};
+
+export const isPracticeLog = (value: unknown): value is PracticeEntry[] =>
+  Array.isArray(value) && value.every(isPracticeEntry);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Whole days since the epoch, so day arithmetic isn't thrown off by DST
+const toDayNumber = (dateKey: string): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / 86400000);
+};
+
+const fromDayNumber = (dayNumber: number): string => {
+  const date = new Date(dayNumber * 86400000);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Rejects impossible days like 2024-02-30, which Date would quietly roll over
+const isDateKey = (value: string) => DATE_PATTERN.test(value) && fromDayNumber(toDayNumber(value)) === value;
+
+// Newest first; entries on the same day keep the order they were logged in
+export const sortEntries = (entries: PracticeEntry[]): PracticeEntry[] =>
+  [...entries].sort((a, b) => b.date.localeCompare(a.date));
+
+export interface PracticeStreaks {
+  current: number;
+  longest: number;
+  daysPracticed: number;
+}
+
+export const getStreaks = (entries: PracticeEntry[], today: string): PracticeStreaks => {
+  const days = Array.from(new Set(entries.map(entry => toDayNumber(entry.date)))).sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && day === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  // A streak is still alive until a whole day passes without practice
+  const todayNumber = toDayNumber(today);
+  const lastDay = days[days.length - 1];
+  const current = lastDay !== undefined && todayNumber - lastDay <= 1 ? run : 0;
+
+  return { current, longest, daysPracticed: days.length };
+};
+
+export interface WeekSummary {
+  // Monday of the week, as YYYY-MM-DD
+  weekStart: string;
+  totalMinutes: number;
+  byPillar: Record<string, number>;
+  // Same split as the routine planner: an entry practising several skills
+  // counts a share of its time toward each
+  bySkill: Record<string, number>;
+}
+
+const getWeekStart = (dayNumber: number): number => {
+  // Day 0 (1970-01-01) was a Thursday
+  const weekday = (dayNumber + 3) % 7;
+  return dayNumber - weekday;
+};
+
+// Minutes per pillar and parent skill for each of the last `weeks` weeks, oldest first, including empty weeks
+export const getWeeklyMinutes = (
+  entries: PracticeEntry[],
+  activities: Activity[],
+  today: string,
+  weeks: number
+): WeekSummary[] => {
+  const activitiesById = new Map(activities.map(activity => [activity.id, activity]));
+  const thisWeek = getWeekStart(toDayNumber(today));
+
+  const summaries: WeekSummary[] = Array.from({ length: weeks }, (_, i) => ({
+    weekStart: fromDayNumber(thisWeek - (weeks - 1 - i) * 7),
+    totalMinutes: 0,
+    byPillar: Object.fromEntries(PILLARS.map(pillar => [pillar, 0])),
+    bySkill: {}
+  }));
+
+  entries.forEach(entry => {
+    const index = weeks - 1 - (thisWeek - getWeekStart(toDayNumber(entry.date))) / 7;
+    if (index < 0 || index >= weeks) return;
+    const activity = activitiesById.get(entry.activityId);
+    const pillar = activity?.pillar || 'No pillar';
+    const skills = activity && activity.parentSkills.length > 0 ? activity.parentSkills : ['No parent skill'];
+    const summary = summaries[index];
+    summary.totalMinutes += entry.minutes;
+    summary.byPillar[pillar] = (summary.byPillar[pillar] || 0) + entry.minutes;
+    skills.forEach(skill => {
+      summary.bySkill[skill] = (summary.bySkill[skill] || 0) + entry.minutes / skills.length;
+    });
+  });
+
+  return summaries;
+};
+
+// Parent skills practised in the given weeks, most minutes first
+export const getWeeklySkills = (weeks: WeekSummary[]): string[] => {
+  const skillMinutes = new Map<string, number>();
+  weeks.forEach(week => Object.entries(week.bySkill).forEach(([skill, minutes]) => addMinutes(skillMinutes, skill, minutes)));
+  return toBreakdown(skillMinutes, 0).map(entry => entry.label);
+};
+
+export interface ActivityPractice {
+  activity: Activity;
+  minutes: number;
+  sessions: number;
+}
+
+export const getTopActivities = (entries: PracticeEntry[], activities: Activity[], limit: number): ActivityPractice[] => {
+  const activitiesById = new Map(activities.map(activity => [activity.id, activity]));
+  const byActivity = new Map<string, ActivityPractice>();
+
+  entries.forEach(entry => {
+    const activity = activitiesById.get(entry.activityId);
+    if (!activity) return;
+    const practice = byActivity.get(activity.id) || { activity, minutes: 0, sessions: 0 };
+    practice.minutes += entry.minutes;
+    practice.sessions += 1;
+    byActivity.set(activity.id, practice);
+  });
+
+  return Array.from(byActivity.values())
+    .sort((a, b) => b.minutes - a.minutes || b.sessions - a.sessions)
+    .slice(0, limit);
+};
+
+export type PracticeImportMode = 'merge' | 'replace';
+
+// Entries already in the log (e.g. re-importing an earlier export) aren't added twice
+export const mergeEntries = (current: PracticeEntry[], incoming: PracticeEntry[]): PracticeEntry[] => {
+  const ids = new Set(current.map(entry => entry.id));
+  return [...current, ...incoming.filter(entry => !ids.has(entry.id))];
+};
+
+const CSV_COLUMNS = ['date', 'activity_id', 'activity', 'minutes', 'note', 'entry_id'];
+
+export const exportPracticeCsv = (entries: PracticeEntry[], activities: Activity[]): string => {
+  const activitiesById = new Map(activities.map(activity => [activity.id, activity]));
+  // Notes are free text, so escape ones like "=1+1" that spreadsheets would run as formulas
+  return Papa.unparse({
+    fields: CSV_COLUMNS,
+    data: sortEntries(entries).map(entry => [
+      entry.date,
+      entry.activityId,
+      activitiesById.get(entry.activityId)?.displayName || '',
+      entry.minutes,
+      entry.note,
+      entry.id
+    ])
+  }, { newline: '\n', escapeFormulae: true });
+};
+
+export interface PracticeCsvResult {
+  entries: PracticeEntry[];
+  // 1-based row numbers (after the header) that couldn't be read
+  skippedRows: number[];
+}
+
+// Rows are matched to activities by id, falling back to the display name so
+// hand-written spreadsheets work too
+export const parsePracticeCsv = (text: string, activities: Activity[]): PracticeCsvResult => {
+  const result = Papa.parse<Record<string, string>>(text.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim().toLowerCase()
+  });
+
+  const fields = result.meta.fields || [];
+  if (!fields.includes('date') || !fields.includes('minutes') || !(fields.includes('activity_id') || fields.includes('activity'))) {
+    throw new Error('The file needs date, minutes and activity_id (or activity) columns');
+  }
+
+  const activityIds = new Set(activities.map(activity => activity.id));
+  const idsByName = new Map(activities.map(activity => [activity.displayName.toLowerCase(), activity.id]));
+  const entries: PracticeEntry[] = [];
+  const skippedRows: number[] = [];
+
+  result.data.forEach((row, i) => {
+    const date = (row.date || '').trim();
+    const minutes = Number((row.minutes || '').trim());
+    const rowId = (row.activity_id || '').trim();
+    const activityId = activityIds.has(rowId) ? rowId : idsByName.get((row.activity || '').trim().toLowerCase());
+
+    if (!activityId || !isDateKey(date) || !(minutes > 0)) {
+      skippedRows.push(i + 1);
+      return;
+    }
+
+    entries.push({
+      id: (row.entry_id || '').trim() || createId(),
+      activityId,
+      date,
+      minutes: Math.round(minutes),
+      // Undo the quote escapeFormulae puts in front of notes like "-ish"
+      note: (row.note || '').replace(/^'(?=[=+\-@\t\r])/, '').trim()
+    });
+  });
+
+  return { entries, skippedRows };
+};
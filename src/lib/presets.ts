@@ -0,0 +1,46 @@
+export type PresetLibrary = 'activities' | 'tools';
+
+// A named search + filter combination. `params` uses the same encoding as the
+// page URL (see filters.ts), so presets survive filter changes the same way links do.
+export interface FilterPreset {
+  id: string;
+  name: string;
+  params: string;
+}
+
+interface PresetsFile {
+  library: PresetLibrary;
+  presets: FilterPreset[];
+}
+
+const isPreset = (value: unknown): value is FilterPreset => {
+  if (!value || typeof value !== 'object') return false;
+  const preset = value as Record<string, unknown>;
+  return typeof preset.id === 'string' && typeof preset.name === 'string' && typeof preset.params === 'string';
+};
+
+export const isPresetList = (value: unknown): value is FilterPreset[] =>
+  Array.isArray(value) && value.every(isPreset);
+
+export const exportPresets = (library: PresetLibrary, presets: FilterPreset[]): string => {
+  const file: PresetsFile = { library, presets };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parsePresetsFile = (text: string, library: PresetLibrary): FilterPreset[] => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const { library: fileLibrary, presets } = (file || {}) as Partial<PresetsFile>;
+  if (fileLibrary !== library) {
+    throw new Error(`These presets are for the ${fileLibrary || 'unknown'} library, not ${library}`);
+  }
+  if (!isPresetList(presets)) {
+    throw new Error('The file does not contain a list of presets');
+  }
+  return presets;
+};
@@ -0,0 +1,22 @@
+import { PersistedStateConfig, readPersistedValue, writePersistedValue } from './persistedState';
+import { isIdList } from './favorites';
+
+const MAX_RECENT_ITEMS = 8;
+
+const RECENT_ITEMS_STATE: PersistedStateConfig<string[]> = {
+  key: 'refold-recent-items',
+  version: 1,
+  initialValue: [],
+  isValid: isIdList
+};
+
+// Most recently opened activity and tool ids, newest first
+export const getRecentItemIds = (): string[] => {
+  const read = readPersistedValue(RECENT_ITEMS_STATE);
+  return read.status === 'ok' ? read.value : [];
+};
+
+export const addRecentItem = (id: string) => {
+  const ids = [id, ...getRecentItemIds().filter(recentId => recentId !== id)].slice(0, MAX_RECENT_ITEMS);
+  writePersistedValue(RECENT_ITEMS_STATE, ids);
+};
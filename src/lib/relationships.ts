@@ -0,0 +1,74 @@
+import { Activity, Tool, PILLARS } from './library';
+
+export interface UnresolvedToolName {
+  activityId: string;
+  name: string;
+}
+
+// Both directions of the activities' Tools column, resolved once
+export interface ToolRelationships {
+  toolsByActivity: Map<string, Tool[]>;
+  activitiesByTool: Map<string, Activity[]>;
+  // Names in the Tools column that don't match any tool
+  unresolved: UnresolvedToolName[];
+}
+
+// Display name or code name, ignoring case; the first tool with a name wins
+const buildToolNameIndex = (tools: Tool[]): Map<string, Tool> => {
+  const index = new Map<string, Tool>();
+  tools.forEach(tool => {
+    [tool.displayName, tool.codeName].forEach(name => {
+      const key = name.toLowerCase();
+      if (name && !index.has(key)) index.set(key, tool);
+    });
+  });
+  return index;
+};
+
+// Other columns naming tools (like Alternatives) resolve the same way, skipping unknown names
+export const resolveToolNames = (names: string[], tools: Tool[]): Tool[] => {
+  const toolsByName = buildToolNameIndex(tools);
+  const resolved = names
+    .map(name => toolsByName.get(name.toLowerCase()))
+    .filter((tool): tool is Tool => tool !== undefined);
+  return Array.from(new Set(resolved));
+};
+
+export const buildToolRelationships = (activities: Activity[], tools: Tool[]): ToolRelationships => {
+  const toolsByName = buildToolNameIndex(tools);
+  const toolsByActivity = new Map<string, Tool[]>();
+  const activitiesByTool = new Map<string, Activity[]>(tools.map(tool => [tool.id, []]));
+  const unresolved: UnresolvedToolName[] = [];
+
+  activities.forEach(activity => {
+    const resolved: Tool[] = [];
+    activity.tools.forEach(name => {
+      const tool = toolsByName.get(name.toLowerCase());
+      if (!tool) {
+        unresolved.push({ activityId: activity.id, name });
+      } else if (!resolved.includes(tool)) {
+        resolved.push(tool);
+        activitiesByTool.get(tool.id)!.push(activity);
+      }
+    });
+    toolsByActivity.set(activity.id, resolved);
+  });
+
+  return { toolsByActivity, activitiesByTool, unresolved };
+};
+
+export interface PillarGroup {
+  pillar: string;
+  activities: Activity[];
+}
+
+// Pillars in their usual order, then anything the sheet files elsewhere
+export const groupByPillar = (activities: Activity[]): PillarGroup[] => {
+  const groups = new Map<string, Activity[]>(PILLARS.map(pillar => [pillar, []]));
+  activities.forEach(activity => {
+    const pillar = activity.pillar || 'No pillar';
+    groups.set(pillar, [...(groups.get(pillar) || []), activity]);
+  });
+  return Array.from(groups, ([pillar, grouped]) => ({ pillar, activities: grouped }))
+    .filter(group => group.activities.length > 0);
+};
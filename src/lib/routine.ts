@@ -0,0 +1,157 @@
+import { Activity, PILLARS } from './library';
+
+export const ROUTINE_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const PILLAR_COLORS: Record<string, string> = {
+  Interactive: '#6544E9',
+  Freeflow: '#10B981',
+  Priming: '#F59E0B'
+};
+
+export const getPillarColor = (pillar: string) => PILLAR_COLORS[pillar] || '#9CA3AF';
+
+export const DEFAULT_SESSION_MINUTES = 30;
+
+// The Vocab Study guide: study "should never be more than 25% of your total learning time"
+export const MAX_STUDY_SHARE = 0.25;
+// Past this, one pillar is crowding out the other two
+export const MAX_PILLAR_SHARE = 0.7;
+
+export interface RoutineSession {
+  id: string;
+  activityId: string;
+  minutes: number;
+}
+
+// The phase it's planned for is the learner's own, from PhaseContext
+export interface Routine {
+  // One list of sessions per day, Monday first
+  days: RoutineSession[][];
+}
+
+export const EMPTY_ROUTINE: Routine = { days: ROUTINE_DAYS.map(() => []) };
+
+const isSession = (value: unknown): value is RoutineSession => {
+  if (!value || typeof value !== 'object') return false;
+  const session = value as Record<string, unknown>;
+  return typeof session.id === 'string' && typeof session.activityId === 'string' && typeof session.minutes === 'number';
+};
+
+export const isRoutine = (value: unknown): value is Routine => {
+  if (!value || typeof value !== 'object') return false;
+  const routine = value as Record<string, unknown>;
+  return Array.isArray(routine.days) &&
+    routine.days.length === ROUTINE_DAYS.length &&
+    routine.days.every(day => Array.isArray(day) && day.every(isSession));
+};
+
+export interface BreakdownEntry {
+  label: string;
+  minutes: number;
+  // Fraction of the week's total minutes
+  share: number;
+}
+
+export interface RoutineWarning {
+  message: string;
+  // Sessions the warning is about, so they can be highlighted
+  sessionIds: string[];
+}
+
+export interface RoutineAnalysis {
+  totalMinutes: number;
+  byPillar: BreakdownEntry[];
+  byParentSkill: BreakdownEntry[];
+  warnings: RoutineWarning[];
+}
+
+export const toBreakdown = (minutesByLabel: Map<string, number>, totalMinutes: number): BreakdownEntry[] =>
+  Array.from(minutesByLabel, ([label, minutes]) => ({ label, minutes, share: totalMinutes > 0 ? minutes / totalMinutes : 0 }))
+    .sort((a, b) => b.minutes - a.minutes);
+
+export const addMinutes = (minutesByLabel: Map<string, number>, label: string, minutes: number) =>
+  minutesByLabel.set(label, (minutesByLabel.get(label) || 0) + minutes);
+
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+// `phase` is the learner's Refold phase, or '' to skip the phase checks
+export const analyzeRoutine = (routine: Routine, activities: Activity[], phase: string): RoutineAnalysis => {
+  const activitiesById = new Map(activities.map(activity => [activity.id, activity]));
+  const sessions = routine.days.flat().filter(session => activitiesById.has(session.activityId));
+  const totalMinutes = sessions.reduce((sum, session) => sum + session.minutes, 0);
+
+  const pillarMinutes = new Map(PILLARS.map(pillar => [pillar, 0]));
+  const skillMinutes = new Map<string, number>();
+  let studyMinutes = 0;
+
+  for (const session of sessions) {
+    const activity = activitiesById.get(session.activityId)!;
+    addMinutes(pillarMinutes, activity.pillar || 'No pillar', session.minutes);
+
+    // A session practising several skills counts a share of its time toward each
+    const skills = activity.parentSkills.length > 0 ? activity.parentSkills : ['No parent skill'];
+    skills.forEach(skill => addMinutes(skillMinutes, skill, session.minutes / skills.length));
+    if (activity.parentSkills.includes('Study')) studyMinutes += session.minutes;
+  }
+
+  const byPillar = toBreakdown(pillarMinutes, totalMinutes);
+  const warnings: RoutineWarning[] = [];
+
+  if (totalMinutes > 0) {
+    if (phase) {
+      const offPhase = sessions.filter(session => !activitiesById.get(session.activityId)!.phases.includes(phase));
+      const names = Array.from(new Set(offPhase.map(session => activitiesById.get(session.activityId)!.displayName)));
+      if (names.length > 0) {
+        warnings.push({
+          message: `${names.join(', ')} ${names.length === 1 ? "isn't" : "aren't"} recommended for phase ${phase}.`,
+          sessionIds: offPhase.map(session => session.id)
+        });
+      }
+    }
+
+    // Only ask for pillars the phase actually has activities for
+    const phaseActivities = phase
+      ? activities.filter(activity => activity.phases.includes(phase))
+      : activities;
+    PILLARS.forEach(pillar => {
+      if (pillarMinutes.get(pillar) === 0 && phaseActivities.some(activity => activity.pillar === pillar)) {
+        warnings.push({ message: `No ${pillar} time is planned. A healthy routine balances all three pillars.`, sessionIds: [] });
+      }
+    });
+
+    byPillar
+      .filter(entry => PILLARS.includes(entry.label) && entry.share > MAX_PILLAR_SHARE)
+      .forEach(entry => {
+        warnings.push({
+          message: `${entry.label} takes up ${formatShare(entry.share)} of your week, leaving little room for the other pillars.`,
+          sessionIds: sessions
+            .filter(session => activitiesById.get(session.activityId)!.pillar === entry.label)
+            .map(session => session.id)
+        });
+      });
+
+    if (studyMinutes / totalMinutes > MAX_STUDY_SHARE) {
+      warnings.push({
+        message: `Study takes up ${formatShare(studyMinutes / totalMinutes)} of your week. Keep it under ${formatShare(MAX_STUDY_SHARE)} of your learning time.`,
+        sessionIds: sessions
+          .filter(session => activitiesById.get(session.activityId)!.parentSkills.includes('Study'))
+          .map(session => session.id)
+      });
+    }
+  }
+
+  return {
+    totalMinutes,
+    byPillar,
+    byParentSkill: toBreakdown(skillMinutes, totalMinutes),
+    warnings
+  };
+};
+
+export const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
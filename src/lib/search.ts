@@ -1,33 +1,286 @@
-interface SearchableItem {
-  [key: string]: string;
+import type { LibraryItem, Activity, Tool } from './library';
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+// Where the query matched in one field; offsets index into `text`
+export interface FieldMatch {
+  field: string;
+  label: string;
+  text: string;
+  ranges: MatchRange[];
 }
 
-interface ScoredItem<T> {
+export interface SearchResult<T> {
   item: T;
   score: number;
+  matches: FieldMatch[];
+}
+
+interface SearchField {
+  field: string;
+  label: string;
+  text: string;
+  // Whether single-word typos count as a match, mirroring the scoring tiers
+  fuzzy: boolean;
+}
+
+export interface NormalizedText {
+  text: string;
+  // Index in the original text of each normalized character, plus one for the end
+  offsets: number[];
+}
+
+interface NormalizedField extends SearchField {
+  normalized: NormalizedText;
+}
+
+// NFKD splits accented letters into base + combining mark and folds full-width
+// and other compatibility forms, so "Écoute" and "ｅｃｏｕｔｅ" both become
+// "ecoute". Marks are then dropped, apostrophes removed, other punctuation
+// turned into spaces and runs of whitespace collapsed. Characters are handled
+// one at a time so match offsets can be mapped back onto the original text.
+export const normalizeWithOffsets = (text: string): NormalizedText => {
+  let normalized = '';
+  const offsets: number[] = [];
+  let index = 0;
+
+  for (const char of text) {
+    const folded = char
+      .normalize('NFKD')
+      .toLowerCase()
+      .replace(/\p{M}/gu, '')
+      .replace(/['\u2019]/g, '')
+      .replace(/[\p{P}\s]/gu, ' ');
+
+    for (let i = 0; i < folded.length; i++) {
+      if (folded[i] === ' ' && (normalized === '' || normalized.endsWith(' '))) continue;
+      normalized += folded[i];
+      offsets.push(index);
+    }
+    index += char.length;
+  }
+
+  if (normalized.endsWith(' ')) {
+    // The trailing space's position becomes the end marker
+    normalized = normalized.slice(0, -1);
+  } else {
+    offsets.push(index);
+  }
+
+  return { text: normalized, offsets };
+};
+
+export const normalizeText = (text: string): string => normalizeWithOffsets(text).text;
+
+export type QualifierOperator = ':' | '<' | '<=' | '>' | '>=';
+
+// A `field:value` part of the query, e.g. `phase:3`, `tech:<=2` or `-pillar:freeflow`
+export interface QueryQualifier {
+  field: string;
+  operator: QualifierOperator;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  // Free-text words and quoted phrases, lowercased
+  terms: string[];
+  // Negated words and phrases (`-freeflow`), which exclude items containing them
+  excludedTerms: string[];
+  qualifiers: QueryQualifier[];
+}
+
+type QueryField<T> =
+  // `wholeWords` fields hold fixed values, so `pricing:free` mustn't match "Freemium"
+  | { kind: 'text'; values: (item: T) => string[]; matchesWhenEmpty?: boolean; wholeWords?: boolean }
+  | { kind: 'number'; values: (item: T) => number[] };
+
+const ACTIVITY_QUERY_FIELDS: Record<string, QueryField<Activity>> = {
+  name: { kind: 'text', values: act => [act.displayName, act.codeName, ...act.aliases] },
+  pillar: { kind: 'text', values: act => [act.pillar], wholeWords: true },
+  phase: { kind: 'number', values: act => act.phases.map(Number) },
+  skill: { kind: 'text', values: act => act.parentSkills },
+  type: { kind: 'text', values: act => [act.type], wholeWords: true },
+  tool: { kind: 'text', values: act => act.tools, wholeWords: true }
+};
+
+const TOOL_QUERY_FIELDS: Record<string, QueryField<Tool>> = {
+  name: { kind: 'text', values: tool => [tool.displayName, tool.codeName, ...tool.aliases] },
+  pricing: { kind: 'text', values: tool => [tool.pricing], wholeWords: true },
+  tech: { kind: 'number', values: tool => (tool.techLevel === null ? [] : [tool.techLevel]) },
+  platform: { kind: 'text', values: tool => tool.platforms, wholeWords: true },
+  // Same as the language filter: tools without listed languages work with any of them
+  language: { kind: 'text', values: tool => tool.languages, matchesWhenEmpty: true },
+  activity: { kind: 'text', values: tool => tool.techniques }
+};
+
+const QUERY_FIELD_ALIASES: Record<string, string> = {
+  parentskill: 'skill',
+  skills: 'skill',
+  phases: 'phase',
+  tools: 'tool',
+  price: 'pricing',
+  techlevel: 'tech',
+  level: 'tech',
+  platforms: 'platform',
+  lang: 'language',
+  languages: 'language',
+  technique: 'activity',
+  activities: 'activity'
+};
+
+const QUERY_FIELD_NAMES = new Set([...Object.keys(ACTIVITY_QUERY_FIELDS), ...Object.keys(TOOL_QUERY_FIELDS)]);
+
+// Matches, in order: an optionally negated `field:[op]value` (value may be quoted),
+// an optionally negated "quoted phrase", or any other run of non-space characters
+const QUERY_TOKEN_REGEX = /(-?)(?:([a-z]+):(<=|>=|<|>|=)?(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+))/gi;
+
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], excludedTerms: [], qualifiers: [] };
+
+  for (const match of query.matchAll(QUERY_TOKEN_REGEX)) {
+    const [raw, negation, field, operator, quotedValue, value, phrase, word] = match;
+    const negated = negation === '-';
+
+    const fieldName = field?.toLowerCase();
+    const queryField = fieldName && (QUERY_FIELD_ALIASES[fieldName] || fieldName);
+
+    // Fields neither library has (and things like URLs) are searched as plain text
+    if (queryField && QUERY_FIELD_NAMES.has(queryField)) {
+      const qualifierValue = normalizeText(quotedValue ?? value);
+      // Skip half-typed qualifiers like `pillar:` rather than matching nothing
+      if (!qualifierValue) continue;
+
+      parsed.qualifiers.push({
+        field: queryField,
+        operator: !operator || operator === '=' ? ':' : operator as QualifierOperator,
+        value: qualifierValue,
+        negated
+      });
+      continue;
+    }
+
+    const term = normalizeText(queryField ? raw.slice(negation.length) : phrase ?? word);
+    if (!term) continue;
+
+    if (negated) {
+      parsed.excludedTerms.push(term);
+    } else {
+      parsed.terms.push(term);
+    }
+  }
+
+  return parsed;
+}
+
+const compareNumbers = (a: number, operator: QualifierOperator, b: number): boolean => {
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    default: return a === b;
+  }
+};
+
+function matchesQueryField<T>(item: T, field: QueryField<T>, qualifier: QueryQualifier): boolean {
+  if (field.kind === 'number') {
+    const target = Number(qualifier.value);
+    if (isNaN(target)) return false;
+    return field.values(item).some(value => compareNumbers(value, qualifier.operator, target));
+  }
+
+  // Comparisons only make sense for numeric fields
+  if (qualifier.operator !== ':') return false;
+
+  const values = field.values(item);
+  if (values.length === 0 && field.matchesWhenEmpty) return true;
+  if (field.wholeWords) {
+    // Normalized text is single-spaced, so padding both sides keeps matches to whole words
+    return values.some(value => ` ${normalizeText(value)} `.includes(` ${qualifier.value} `));
+  }
+  return values.some(value => normalizeText(value).includes(qualifier.value));
+}
+
+const getQueryField = (item: LibraryItem, name: string): QueryField<LibraryItem> | undefined => {
+  const fields = (item.library === 'Tools' ? TOOL_QUERY_FIELDS : ACTIVITY_QUERY_FIELDS) as Record<string, QueryField<LibraryItem>>;
+  return fields[name];
+};
+
+// All normalized search text of an item, one field per line
+export const getSearchableText = (item: LibraryItem): string =>
+  getNormalizedFields(item).map(field => field.normalized.text).join('\n');
+
+export interface SearchOptions {
+  // For searches over both libraries: an item whose library lacks a qualifier's
+  // field fails it, so `tech:<=2` only finds tools. The list pages leave this
+  // off, which ignores such qualifiers instead.
+  acrossLibraries?: boolean;
 }
 
-export function searchWithScoring<T extends SearchableItem>(
+export function searchWithScoring<T extends LibraryItem>(
   items: T[],
-  query: string
+  query: string,
+  options: SearchOptions = {}
 ): T[] {
+  return searchWithMatches(items, query, options).map(result => result.item);
+}
+
+// Same ranking as searchWithScoring, plus where each free-text term matched
+export function searchWithMatches<T extends LibraryItem>(
+  items: T[],
+  query: string,
+  options: SearchOptions = {}
+): SearchResult<T>[] {
   // Return all items if query is empty or just whitespace
-  const trimmedQuery = query.trim().toLowerCase();
-  if (!trimmedQuery) {
-    return items;
+  if (!query.trim()) {
+    return items.map(item => ({ item, score: 0, matches: [] }));
   }
 
-  const scoredItems: ScoredItem<T>[] = [];
+  const { terms, excludedTerms, qualifiers } = parseQuery(query);
+  const results: SearchResult<T>[] = [];
 
   for (const item of items) {
-    const score = calculateItemScore(item, trimmedQuery);
-    if (score > 0) {
-      scoredItems.push({ item, score });
+    let matchesQualifiers = true;
+
+    for (const qualifier of qualifiers) {
+      const field = getQueryField(item, qualifier.field);
+
+      // Qualifiers for the other library's fields, like `tech:` on an activity,
+      // don't apply on a list page and rule the item out across libraries
+      if (!field) {
+        if (options.acrossLibraries && !qualifier.negated) {
+          matchesQualifiers = false;
+          break;
+        }
+        continue;
+      }
+
+      if (matchesQueryField(item, field, qualifier) === qualifier.negated) {
+        matchesQualifiers = false;
+        break;
+      }
+    }
+
+    if (!matchesQualifiers) continue;
+
+    if (excludedTerms.length > 0) {
+      const text = getSearchableText(item);
+      if (excludedTerms.some(term => text.includes(term))) continue;
+    }
+
+    // Qualifier-only queries keep every matching item, in ID order
+    const score = terms.length > 0 ? calculateItemScore(item, terms) : 0;
+    if (terms.length === 0 || score > 0) {
+      results.push({ item, score, matches: findMatches(item, terms) });
     }
   }
 
   // Sort by score descending, then by ID ascending for ties
-  scoredItems.sort((a, b) => {
+  results.sort((a, b) => {
     if (a.score !== b.score) {
       return b.score - a.score; // Higher scores first
     }
@@ -37,67 +290,320 @@ export function searchWithScoring<T extends SearchableItem>(
     return idA - idB;
   });
 
-  return scoredItems.map(scored => scored.item);
+  return results;
 }
 
-function calculateItemScore<T extends SearchableItem>(
-  item: T,
-  query: string
+// Tertiary fields - low value matches (fallback search)
+const getTertiaryFields = (item: LibraryItem): SearchField[] => {
+  const field = (key: string, label: string, text: string): SearchField => ({ field: key, label, text, fuzzy: false });
+
+  const shared = [
+    field('longDescription', 'Description', item.longDescription),
+    field('benefits', 'Benefits', item.benefits.join('\n')),
+    field('alternatives', 'Alternatives', item.alternatives.join(', ')),
+    field('guide.intro', 'Guide', item.guide.intro),
+    field('guide.issues', 'Common issues', item.guide.issues),
+    field('guide.setup', 'Setup', item.guide.setup),
+    field('guide.walkthrough', 'Walkthrough', item.guide.walkthrough),
+    field('guide.tipsAndTricks', 'Tips and Tricks', item.guide.tipsAndTricks),
+    field('notes', 'My notes', item.notes || '')
+  ];
+
+  if (item.library === 'Tools') {
+    return [
+      ...shared,
+      field('languages', 'Languages', item.languages.join(', ')),
+      field('techniques', 'Activities', item.techniques.join('; ')),
+      field('guide.targetAudience', 'Who this tool is for', item.guide.targetAudience)
+    ];
+  }
+
+  return [
+    ...shared,
+    field('parentSkills', 'Parent Skills', item.parentSkills.join(', ')),
+    field('childTechniques', 'Child Techniques', item.childTechniques.join('; ')),
+    field('subTechniques', 'Sub-techniques', item.subTechniques.join('; ')),
+    field('tools', 'Tools', item.tools.join('; ')),
+    field('guide.healthRoutine', 'Healthy routine', item.guide.healthRoutine)
+  ];
+};
+
+const getSearchFields = (item: LibraryItem): SearchField[] => [
+  { field: 'displayName', label: 'Name', text: item.displayName, fuzzy: true },
+  { field: 'codeName', label: 'Code name', text: item.codeName, fuzzy: true },
+  { field: 'aliases', label: 'Aliases', text: item.aliases.join(', '), fuzzy: true },
+  { field: 'shortDescription', label: 'Summary', text: item.shortDescription, fuzzy: true },
+  ...getTertiaryFields(item)
+];
+
+// Items are immutable once loaded, so each one's normalized fields are worked out once
+const normalizedFieldCache = new WeakMap<LibraryItem, NormalizedField[]>();
+
+const getNormalizedFields = (item: LibraryItem): NormalizedField[] => {
+  let fields = normalizedFieldCache.get(item);
+  if (!fields) {
+    fields = getSearchFields(item).map(field => ({ ...field, normalized: normalizeWithOffsets(field.text) }));
+    normalizedFieldCache.set(item, fields);
+  }
+  return fields;
+};
+
+// Fuzzy matches score below the matching exact tier but above the tertiary fallback
+const FUZZY_NAME_SCORE = 75;
+const FUZZY_ALIAS_SCORE = 30;
+const FUZZY_SHORT_DESCRIPTION_SCORE = 15;
+
+// Lifts a name the query spells out completely (typos allowed) above longer names
+// that merely contain it, e.g. "sentense mining" → "Sentence Mining" before
+// "Sentence Mining (While Listening)"
+const FULL_NAME_SCORE = 250;
+
+// Allowed typos grow with the query: none below 4 characters, then one per 4 characters, up to 3
+export const maxEditDistance = (term: string): number =>
+  Math.min(3, Math.floor(term.length / 4));
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+// giving up early once every path exceeds the limit
+export const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > limit) return limit + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+};
+
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+// Split normalized text into the same words the fuzzy matching compares against
+export const tokenize = (text: string): string[] => text.match(WORD_REGEX) || [];
+
+const findFuzzyRanges = (text: string, term: string): MatchRange[] => {
+  const limit = maxEditDistance(term);
+  if (limit === 0) return [];
+
+  const ranges: MatchRange[] = [];
+  for (const word of text.matchAll(WORD_REGEX)) {
+    if (editDistance(word[0], term, limit) <= limit) {
+      ranges.push({ start: word.index, end: word.index + word[0].length });
+    }
+  }
+  return ranges;
+};
+
+const fuzzyMatches = (text: string, term: string): boolean =>
+  findFuzzyRanges(text, term).length > 0;
+
+const findSubstringRanges = (text: string, term: string): MatchRange[] => {
+  const ranges: MatchRange[] = [];
+  let index = text.indexOf(term);
+  while (index !== -1) {
+    ranges.push({ start: index, end: index + term.length });
+    index = text.indexOf(term, index + term.length);
+  }
+  return ranges;
+};
+
+// Sort ranges and merge any that overlap or touch
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+function findMatches(item: LibraryItem, terms: string[]): FieldMatch[] {
+  const matches: FieldMatch[] = [];
+
+  for (const { field, label, text, fuzzy, normalized } of getNormalizedFields(item)) {
+    if (!normalized.text) continue;
+
+    const ranges = terms.flatMap(term => {
+      const exact = findSubstringRanges(normalized.text, term);
+      if (exact.length > 0 || !fuzzy || /\s/.test(term)) return exact;
+      return findFuzzyRanges(normalized.text, term);
+    });
+
+    if (ranges.length > 0) {
+      // Map back from normalized positions to the text as displayed
+      const originalRanges = ranges.map(range => ({
+        start: normalized.offsets[range.start],
+        end: normalized.offsets[range.end]
+      }));
+      matches.push({ field, label, text, ranges: mergeRanges(originalRanges) });
+    }
+  }
+
+  return matches;
+}
+
+export const getFieldMatch = (matches: FieldMatch[], field: string): FieldMatch | undefined =>
+  matches.find(match => match.field === field);
+
+const HEADER_FIELDS = ['displayName', 'codeName', 'shortDescription'];
+
+// The first match outside what a card header already shows, i.e. why a result
+// turned up when the query isn't visible in its name or summary
+export const getDeepestMatch = (matches: FieldMatch[]): FieldMatch | undefined =>
+  matches.find(match => !HEADER_FIELDS.includes(match.field));
+
+export interface Snippet {
+  text: string;
+  ranges: MatchRange[];
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+// Cut a single line of context around the first match in a field
+export const getSnippet = (match: FieldMatch, radius = 60): Snippet => {
+  const first = match.ranges[0];
+  let start = Math.max(0, first.start - radius);
+  let end = Math.min(match.text.length, first.end + radius);
+
+  // Don't cut words in half
+  if (start > 0) {
+    const space = match.text.indexOf(' ', start);
+    if (space !== -1 && space < first.start) start = space + 1;
+  }
+  if (end < match.text.length) {
+    const space = match.text.lastIndexOf(' ', end);
+    if (space > first.end) end = space;
+  }
+
+  return {
+    text: match.text.slice(start, end).replace(/\s/g, ' '),
+    ranges: match.ranges
+      .filter(range => range.start < end && range.end > start)
+      .map(range => ({ start: Math.max(range.start, start) - start, end: Math.min(range.end, end) - start })),
+    truncatedStart: start > 0,
+    truncatedEnd: end < match.text.length
+  };
+};
+
+// Score a single normalized term against an item; fuzzy fallbacks only apply to single words
+function calculateTermScore(
+  item: LibraryItem,
+  term: string,
+  fuzzy: boolean
 ): number {
   let score = 0;
+  const fields = getNormalizedFields(item);
+  const fieldText = (key: string) => fields.find(field => field.field === key)?.normalized.text || '';
 
   // Primary fields - high value matches
-  const displayName = (item['Display Name'] || '').toLowerCase();
-  const codeName = (item['code name'] || '').toLowerCase();
-  
+  const displayName = fieldText('displayName');
+  const codeName = fieldText('codeName');
+
   // Exact matches (highest priority)
-  if (displayName === query || codeName === query) {
+  if (displayName === term || codeName === term) {
     score += 1000;
   }
-  // Starts with query (second highest)
-  else if (displayName.startsWith(query) || codeName.startsWith(query)) {
+  // Starts with term (second highest)
+  else if (displayName.startsWith(term) || codeName.startsWith(term)) {
     score += 500;
   }
-  // Contains query in name fields (third highest)
-  else if (displayName.includes(query) || codeName.includes(query)) {
+  // Contains term in name fields (third highest)
+  else if (displayName.includes(term) || codeName.includes(term)) {
     score += 100;
   }
+  else if (fuzzy && (fuzzyMatches(displayName, term) || fuzzyMatches(codeName, term))) {
+    score += FUZZY_NAME_SCORE;
+  }
 
   // Secondary fields - medium value matches
-  const aliases = (item['Aliases'] || '').toLowerCase();
-  const shortDescription = (item['Short Description'] || '').toLowerCase();
-  
-  if (aliases.includes(query)) {
+  const aliases = fieldText('aliases');
+  const shortDescription = fieldText('shortDescription');
+
+  if (aliases.includes(term)) {
     score += 50;
+  } else if (fuzzy && fuzzyMatches(aliases, term)) {
+    score += FUZZY_ALIAS_SCORE;
   }
-  if (shortDescription.includes(query)) {
+  if (shortDescription.includes(term)) {
     score += 25;
+  } else if (fuzzy && fuzzyMatches(shortDescription, term)) {
+    score += FUZZY_SHORT_DESCRIPTION_SCORE;
   }
 
-  // Tertiary fields - low value matches (fallback search)
-  const searchableFields = [
-    'Long Description',
-    'Benefits',
-    'Parent Skills',
-    'Child Techniques',
-    'Alternatives',
-    'Sub-techniques',
-    'Tools',
-    'Written Guide - Intro',
-    'Written Guide - Health Routine',
-    'Written Guide - Target Audience',
-    'Written Guide - Issues',
-    'Written Guide - Setup',
-    'Written Guide - Walkthrough',
-    'Written Guide - Tips and Tricks'
-  ];
-
-  for (const field of searchableFields) {
-    const fieldValue = (item[field] || '').toLowerCase();
-    if (fieldValue.includes(query)) {
+  // Tertiary fields are the ones without fuzzy matching
+  for (const field of fields) {
+    if (!field.fuzzy && field.normalized.text.includes(term)) {
       score += 10;
     }
   }
 
   return score;
-}
\ No newline at end of file
+}
+
+// Quoted phrases have to appear verbatim, so only single words are fuzzy-matched
+const isWord = (term: string) => !/\s/.test(term);
+
+// Whether every word of the name is one of the query's words, allowing typos in single-word terms
+const coversName = (name: string, terms: string[]): boolean => {
+  const nameWords = tokenize(name);
+  return nameWords.length > 0 && nameWords.every(word => terms.some(term => {
+    if (!isWord(term)) return tokenize(term).includes(word);
+    const limit = maxEditDistance(term);
+    return editDistance(word, term, limit) <= limit;
+  }));
+};
+
+function calculateItemScore(
+  item: LibraryItem,
+  terms: string[]
+): number {
+  const score = calculateMatchScore(item, terms);
+  if (score === 0) return 0;
+
+  const fields = getNormalizedFields(item);
+  const covered = ['displayName', 'codeName'].some(key => {
+    const name = fields.find(field => field.field === key)?.normalized.text || '';
+    return coversName(name, terms);
+  });
+  return covered ? score + FULL_NAME_SCORE : score;
+}
+
+function calculateMatchScore(
+  item: LibraryItem,
+  terms: string[]
+): number {
+  if (terms.length === 1) {
+    return calculateTermScore(item, terms[0], isWord(terms[0]));
+  }
+
+  // Multiple terms: the verbatim phrase still scores, and every term must
+  // also match somewhere (possibly fuzzily) for the per-term scores to count
+  const phraseScore = calculateTermScore(item, terms.join(' '), false);
+  const termScores = terms.map(term => calculateTermScore(item, term, isWord(term)));
+
+  if (termScores.some(termScore => termScore === 0)) {
+    return phraseScore;
+  }
+
+  return phraseScore + termScores.reduce((sum, termScore) => sum + termScore, 0);
+}
@@ -0,0 +1,134 @@
+import type { LibraryItem } from './library';
+import {
+  SearchResult,
+  parseQuery,
+  searchWithMatches,
+  getSearchableText,
+  tokenize,
+  maxEditDistance,
+  editDistance
+} from './search';
+
+// Inverted index over every word in an item's searchable fields. Lookups only
+// narrow the candidate items; searchWithMatches still does the scoring, so
+// results and ranking match a full scan exactly.
+export interface SearchIndex<T extends LibraryItem> {
+  items: T[];
+  // Distinct words, with the positions (in `items`) of the items containing them
+  tokens: string[];
+  postings: number[][];
+  // Every suffix of every word, sorted, so a prefix lookup here finds words
+  // containing the query anywhere, matching the scorer's substring checks
+  suffixes: { suffix: string; token: number }[];
+}
+
+export const buildSearchIndex = <T extends LibraryItem>(items: T[]): SearchIndex<T> => {
+  const tokenIds = new Map<string, number>();
+  const tokens: string[] = [];
+  const postings: number[][] = [];
+
+  items.forEach((item, position) => {
+    for (const token of new Set(tokenize(getSearchableText(item)))) {
+      let id = tokenIds.get(token);
+      if (id === undefined) {
+        id = tokens.length;
+        tokenIds.set(token, id);
+        tokens.push(token);
+        postings.push([]);
+      }
+      postings[id].push(position);
+    }
+  });
+
+  const suffixes = tokens.flatMap((token, id) =>
+    Array.from(token, (_, start) => ({ suffix: token.slice(start), token: id }))
+  );
+  suffixes.sort((a, b) => (a.suffix < b.suffix ? -1 : a.suffix > b.suffix ? 1 : 0));
+
+  return { items, tokens, postings, suffixes };
+};
+
+// Binary search for the first suffix >= prefix, then walk while it still matches
+const findTokensContaining = (index: SearchIndex<LibraryItem>, piece: string): Set<number> => {
+  const { suffixes } = index;
+  let low = 0;
+  let high = suffixes.length;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (suffixes[middle].suffix < piece) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  const tokenIds = new Set<number>();
+  for (let i = low; i < suffixes.length && suffixes[i].suffix.startsWith(piece); i++) {
+    tokenIds.add(suffixes[i].token);
+  }
+  return tokenIds;
+};
+
+const collectPostings = (index: SearchIndex<LibraryItem>, tokenIds: Iterable<number>): Set<number> => {
+  const positions = new Set<number>();
+  for (const id of tokenIds) {
+    index.postings[id].forEach(position => positions.add(position));
+  }
+  return positions;
+};
+
+const intersect = (a: Set<number>, b: Set<number>): Set<number> =>
+  new Set(Array.from(a).filter(position => b.has(position)));
+
+// Items that could match a term: every word of it appears inside some indexed
+// word, or (for single words) some indexed word is within the typo tolerance
+const findCandidatesForTerm = (index: SearchIndex<LibraryItem>, term: string): Set<number> | null => {
+  const pieces = tokenize(term);
+  // Pure punctuation can't be looked up, so don't narrow on it
+  if (pieces.length === 0) return null;
+
+  let candidates = collectPostings(index, findTokensContaining(index, pieces[0]));
+  for (const piece of pieces.slice(1)) {
+    candidates = intersect(candidates, collectPostings(index, findTokensContaining(index, piece)));
+  }
+
+  const limit = maxEditDistance(term);
+  if (!/\s/.test(term) && limit > 0) {
+    const similar = index.tokens
+      .map((token, id) => ({ token, id }))
+      .filter(({ token }) => editDistance(token, term, limit) <= limit)
+      .map(({ id }) => id);
+    collectPostings(index, similar).forEach(position => candidates.add(position));
+  }
+
+  return candidates;
+};
+
+export const searchIndex = <T extends LibraryItem>(index: SearchIndex<T>, query: string): SearchResult<T>[] => {
+  const { terms } = parseQuery(query);
+  let candidates: Set<number> | null = null;
+
+  // Every free-text term has to match for an item to score, so intersect them
+  for (const term of terms) {
+    const termCandidates = findCandidatesForTerm(index, term);
+    if (!termCandidates) continue;
+    candidates = candidates ? intersect(candidates, termCandidates) : termCandidates;
+  }
+
+  const items = candidates
+    ? Array.from(candidates).sort((a, b) => a - b).map(position => index.items[position])
+    : index.items;
+
+  return searchWithMatches(items, query);
+};
+
+export type SearchWorkerRequest =
+  | { type: 'index'; items: LibraryItem[] }
+  | { type: 'search'; requestId: number; query: string };
+
+// Results go back as ids so the page can reuse its own item objects
+export type SearchWorkerResponse = {
+  requestId: number;
+  results: { id: string; score: number; matches: SearchResult<LibraryItem>['matches'] }[];
+};
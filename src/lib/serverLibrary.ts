@@ -0,0 +1,31 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseLibrary, LibraryData, LIBRARY_DATA_URL, Activity, Tool } from './library';
+
+// Server-only access to the TSV, for pages rendered at build time
+const LIBRARY_FILE_PATH = path.join(process.cwd(), 'public', LIBRARY_DATA_URL);
+
+let libraryPromise: Promise<LibraryData> | null = null;
+
+export const getLibrary = (): Promise<LibraryData> => {
+  if (!libraryPromise) {
+    libraryPromise = fs.readFile(LIBRARY_FILE_PATH, 'utf8')
+      .then(parseLibrary)
+      .catch(error => {
+        // Same as loadLibrary: let the next request retry instead of caching the failure
+        libraryPromise = null;
+        throw error;
+      });
+  }
+  return libraryPromise;
+};
+
+export const getActivity = async (id: string): Promise<Activity | undefined> => {
+  const { activities } = await getLibrary();
+  return activities.find(activity => activity.id === id);
+};
+
+export const getTool = async (id: string): Promise<Tool | undefined> => {
+  const { tools } = await getLibrary();
+  return tools.find(tool => tool.id === id);
+};
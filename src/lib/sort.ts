@@ -0,0 +1,96 @@
+import { Activity, Tool, PRICING_TIERS } from './library';
+
+export type ActivitySortMode = 'relevance' | 'name' | 'phaseAsc' | 'phaseDesc' | 'pillar';
+export type ToolSortMode = 'relevance' | 'name' | 'techLevel' | 'pricing' | 'recommendations';
+
+// "relevance" keeps the incoming order: search score, or id when not searching
+export const ACTIVITY_SORT_OPTIONS: { value: ActivitySortMode; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'name', label: 'Name (A–Z)' },
+  { value: 'phaseAsc', label: 'Earliest phase' },
+  { value: 'phaseDesc', label: 'Latest phase' },
+  { value: 'pillar', label: 'Pillar' }
+];
+
+export const TOOL_SORT_OPTIONS: { value: ToolSortMode; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'name', label: 'Name (A–Z)' },
+  { value: 'techLevel', label: 'Tech level (simplest first)' },
+  { value: 'pricing', label: 'Pricing (free first)' },
+  { value: 'recommendations', label: 'Most recommended' }
+];
+
+const byName = (a: { displayName: string }, b: { displayName: string }) =>
+  a.displayName.localeCompare(b.displayName, undefined, { sensitivity: 'base' });
+
+// Compare by a numeric key with missing values last; equal keys keep their order
+const byKey = <T>(getKey: (item: T) => number | null) => (a: T, b: T) => {
+  const keyA = getKey(a);
+  const keyB = getKey(b);
+  if (keyA === keyB) return 0;
+  if (keyA === null) return 1;
+  if (keyB === null) return -1;
+  return keyA - keyB;
+};
+
+const phaseNumbers = (activity: Activity) => activity.phases.map(Number).filter(phase => !isNaN(phase));
+
+export const sortActivities = (activities: Activity[], mode: ActivitySortMode): Activity[] => {
+  const sorted = [...activities];
+
+  switch (mode) {
+    case 'name':
+      return sorted.sort(byName);
+    case 'phaseAsc':
+      return sorted.sort(byKey(activity => {
+        const phases = phaseNumbers(activity);
+        return phases.length > 0 ? Math.min(...phases) : null;
+      }));
+    case 'phaseDesc':
+      return sorted.sort(byKey(activity => {
+        const phases = phaseNumbers(activity);
+        return phases.length > 0 ? -Math.max(...phases) : null;
+      }));
+    case 'pillar':
+      return sorted.sort((a, b) => {
+        if (!a.pillar || !b.pillar) return a.pillar ? -1 : b.pillar ? 1 : 0;
+        return a.pillar.localeCompare(b.pillar);
+      });
+    default:
+      return sorted;
+  }
+};
+
+// How many activities list each tool in their Tools column, by tool id
+export const countToolRecommendations = (activitiesByTool: Map<string, Activity[]>): Map<string, number> =>
+  new Map(Array.from(activitiesByTool, ([toolId, activities]) => [toolId, activities.length]));
+
+export const sortTools = (
+  tools: Tool[],
+  mode: ToolSortMode,
+  recommendationCounts: Map<string, number>
+): Tool[] => {
+  const sorted = [...tools];
+
+  switch (mode) {
+    case 'name':
+      return sorted.sort(byName);
+    case 'techLevel':
+      return sorted.sort(byKey(tool => tool.techLevel));
+    case 'pricing':
+      return sorted.sort(byKey(tool => {
+        const tier = (PRICING_TIERS as readonly string[]).indexOf(tool.pricing);
+        return tier === -1 ? null : tier;
+      }));
+    case 'recommendations':
+      return sorted.sort(byKey(tool => -(recommendationCounts.get(tool.id) || 0)));
+    default:
+      return sorted;
+  }
+};
+
+export const isActivitySortMode = (value: unknown): value is ActivitySortMode =>
+  ACTIVITY_SORT_OPTIONS.some(option => option.value === value);
+
+export const isToolSortMode = (value: unknown): value is ToolSortMode =>
+  TOOL_SORT_OPTIONS.some(option => option.value === value);
@@ -0,0 +1,161 @@
+import {
+  RawRow,
+  ACTIVITY_COLUMNS,
+  TOOL_COLUMNS,
+  PRICING_TIERS,
+  TECH_LEVELS,
+  PHASES,
+  toActivity,
+  toTool,
+  Activity,
+  Tool
+} from './library';
+import { buildToolRelationships } from './relationships';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  // Row id from the sheet, or the 1-based data row number when the id is missing
+  rowId: string;
+  column: string;
+  message: string;
+}
+
+const YOUTUBE_URL_REGEX = /^https:\/\/(?:youtu\.be\/[\w-]{11}|(?:www\.)?youtube\.com\/watch\?v=[\w-]{11})(?:[?&#].*)?$/;
+
+const MARKDOWN_LINK_REGEX = /\[([^\]]*)\]\(([^)]*)\)/g;
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const buildNameIndex = (items: (Activity | Tool)[]): Set<string> => {
+  const names = new Set<string>();
+  items.forEach(item => {
+    names.add(item.displayName.toLowerCase());
+    if (item.codeName) names.add(item.codeName.toLowerCase());
+  });
+  return names;
+};
+
+// Check the cleaned TSV rows for problems that otherwise only show up as silent gaps in the UI
+export const validateLibrary = (rows: RawRow[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  // Papaparse yields a trailing empty row for the file's final newline
+  const dataRows = rows
+    .map((row, index) => ({ row, rowNumber: index + 1 }))
+    .filter(({ row }) => Object.values(row).some(Boolean));
+
+  const activityRows = dataRows.filter(({ row }) => row[ACTIVITY_COLUMNS.library] === 'Activities');
+  const toolRows = dataRows.filter(({ row }) => row[TOOL_COLUMNS.library] === 'Tools');
+
+  const activityNames = buildNameIndex(activityRows.map(({ row }) => toActivity(row)));
+  const tools = toolRows.map(({ row }) => toTool(row));
+  const toolNames = buildNameIndex(tools);
+
+  const seenIds = new Map<string, number>();
+
+  dataRows.forEach(({ row, rowNumber }) => {
+    const rowId = row[ACTIVITY_COLUMNS.id] || `#${rowNumber}`;
+    const report = (severity: IssueSeverity, column: string, message: string) => {
+      issues.push({ severity, rowId, column, message });
+    };
+
+    const id = row[ACTIVITY_COLUMNS.id];
+    if (!id) {
+      report('error', ACTIVITY_COLUMNS.id, 'Missing id');
+    } else if (seenIds.has(id)) {
+      report('error', ACTIVITY_COLUMNS.id, `Duplicate id, first used on data row ${seenIds.get(id)}`);
+    } else {
+      seenIds.set(id, rowNumber);
+    }
+
+    const library = row[ACTIVITY_COLUMNS.library];
+    if (library !== 'Activities' && library !== 'Tools') {
+      report('error', ACTIVITY_COLUMNS.library, `Unknown library "${library}"`);
+      return;
+    }
+
+    Object.entries(row).forEach(([column, value]) => {
+      if (value.split(/[;\n]+/).some(part => part.trim() === '#N/A')) {
+        report('warning', column, '"#N/A" placeholder, leave the cell empty instead');
+      }
+
+      for (const match of value.matchAll(MARKDOWN_LINK_REGEX)) {
+        if (!match[1].trim()) {
+          report('error', column, `Markdown link has no text: ${match[0]}`);
+        }
+        if (!isHttpUrl(match[2].trim())) {
+          report('error', column, `Markdown link has an invalid URL: ${match[0]}`);
+        }
+      }
+    });
+
+    [ACTIVITY_COLUMNS.videoWhatAndWhy, ACTIVITY_COLUMNS.videoDemo].forEach(column => {
+      const url = row[column];
+      if (!url) return;
+      if (url.toLowerCase() === 'na') {
+        report('warning', column, '"na" placeholder, leave the cell empty instead');
+      } else if (!YOUTUBE_URL_REGEX.test(url)) {
+        report('error', column, `Malformed YouTube URL "${url}"`);
+      }
+    });
+
+    const checkReferences = (column: string, names: string[], known: Set<string>, kind: string) => {
+      names.forEach(name => {
+        if (!known.has(name.toLowerCase())) {
+          report('error', column, `Unknown ${kind} "${name}"`);
+        }
+      });
+    };
+
+    if (library === 'Activities') {
+      const activity = toActivity(row);
+
+      activity.phases.forEach(phase => {
+        if (!PHASES.includes(phase)) {
+          report('error', ACTIVITY_COLUMNS.phases, `Phase "${phase}" is outside 1-7`);
+        }
+      });
+
+      // Resolved the same way as the app's tool chips and "Used for" links
+      buildToolRelationships([activity], tools).unresolved.forEach(({ name }) => {
+        report('error', ACTIVITY_COLUMNS.tools, `Unknown tool "${name}"`);
+      });
+      checkReferences(ACTIVITY_COLUMNS.alternatives, activity.alternatives, activityNames, 'activity');
+      checkReferences(ACTIVITY_COLUMNS.parentCategories, activity.parentCategories, activityNames, 'activity');
+      checkReferences(ACTIVITY_COLUMNS.subTechniques, activity.subTechniques, activityNames, 'activity');
+    } else {
+      const tool = toTool(row);
+      const techLevel = row[TOOL_COLUMNS.techLevel];
+      const pricing = row[TOOL_COLUMNS.pricing];
+
+      if (!techLevel) {
+        report('error', TOOL_COLUMNS.techLevel, 'Missing tech level');
+      } else if (!(TECH_LEVELS as readonly number[]).includes(Number(techLevel))) {
+        report('error', TOOL_COLUMNS.techLevel, `Tech level "${techLevel}" is not one of ${TECH_LEVELS.join(', ')}`);
+      }
+
+      if (!pricing) {
+        report('error', TOOL_COLUMNS.pricing, 'Missing pricing');
+      } else if (!(PRICING_TIERS as readonly string[]).includes(pricing)) {
+        report('error', TOOL_COLUMNS.pricing, `Pricing "${pricing}" is not one of ${PRICING_TIERS.join(', ')}`);
+      }
+
+      if (tool.downloadLink && !isHttpUrl(tool.downloadLink.url)) {
+        report('error', TOOL_COLUMNS.downloadLink, `Download link is not a markdown link or URL: "${row[TOOL_COLUMNS.downloadLink]}"`);
+      }
+
+      checkReferences(TOOL_COLUMNS.alternatives, tool.alternatives, toolNames, 'tool');
+    }
+  });
+
+  return issues;
+};
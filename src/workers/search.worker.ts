@@ -0,0 +1,22 @@
+import type { LibraryItem } from '../lib/library';
+import { buildSearchIndex, searchIndex, SearchIndex, SearchWorkerRequest, SearchWorkerResponse } from '../lib/searchIndex';
+
+const worker = self as unknown as Worker;
+
+let index: SearchIndex<LibraryItem> | null = null;
+
+worker.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'index') {
+    index = buildSearchIndex(message.items);
+    return;
+  }
+
+  const results = index ? searchIndex(index, message.query) : [];
+  const response: SearchWorkerResponse = {
+    requestId: message.requestId,
+    results: results.map(({ item, score, matches }) => ({ id: item.id, score, matches }))
+  };
+  worker.postMessage(response);
+};